@@ -1,17 +1,14 @@
 import type { GetTableViewColumns, RelationsFilter, RelationsOrder, TablesRelationalConfig } from "drizzle-orm";
-import { QueryParser, type ASTCondition, type ASTNode, type NumericOperator, type ParseResult, type QueryParserOptions } from "./index";
+import { foldAST, QueryParser, type ASTCondition, type ASTNode, type NumericOperator, type ParseResult, type QueryParserOptions } from "./index";
 
-export type DrizzleOperator = "eq" | "gt" | "lt" | "gte" | "lte";
+export type DrizzleOperator = "eq" | "ne" | "gt" | "lt" | "gte" | "lte";
 
 export interface SortCondition {
 	dir: "asc" | "desc";
 	key: string;
 }
 
-export interface DrizzleParseResult<TFilter extends RelationsFilter<any, any>, TOrder extends RelationsOrder<any>> extends Omit<
-	ParseResult,
-	"astConditions"
-> {
+export interface DrizzleParseResult<TFilter extends RelationsFilter<any, any>, TOrder extends RelationsOrder<any>> extends ParseResult {
 	/**
 	 * The Drizzle-compatible filter object.
 	 */
@@ -41,6 +38,7 @@ export interface DrizzleParseResult<TFilter extends RelationsFilter<any, any>, T
 
 const operatorMap = new Map<NumericOperator, DrizzleOperator>([
 	["=", "eq"],
+	["!=", "ne"],
 	[">", "gt"],
 	["<", "lt"],
 	[">=", "gte"],
@@ -51,6 +49,10 @@ export interface ParseDateOptions {
 	dateFormat?: "date" | "unix";
 }
 
+export interface ParseWildcardOptions {
+	caseSensitive?: boolean;
+}
+
 type DrizzleParserOptions<TFilter extends RelationsFilter<any, any>, TOrder extends RelationsOrder<any>> = QueryParserOptions & {
 	/**
 	 * The function to build the Drizzle filter object from the {@linkcode ASTCondition}.
@@ -133,11 +135,13 @@ export class DrizzleSearchParser<
 	 * @param options.orderFn - The function to build the Drizzle order object from the {@linkcode SortCondition}.
 	 * @param options.validKeys - The valid keys for the parser.
 	 * @param options.defaultKey - The default key for the parser.
+	 * @param options.schema - The type of the values accepted for each key.
 	 */
 	constructor(protected options: DrizzleParserOptions<TFilter, TOrder>) {
-		if (options.validKeys) {
-			if (!options.validKeys.includes("asc")) options.validKeys = [...options.validKeys, "asc"] as const;
-			if (!options.validKeys.includes("desc")) options.validKeys = [...options.validKeys, "desc"] as const;
+		if (options.validKeys || options.schema) {
+			const validKeys = options.validKeys ?? [];
+			if (!validKeys.includes("asc")) options.validKeys = [...(options.validKeys ?? []), "asc"] as const;
+			if (!validKeys.includes("desc")) options.validKeys = [...(options.validKeys ?? []), "desc"] as const;
 		}
 		super(options);
 	}
@@ -147,69 +151,41 @@ export class DrizzleSearchParser<
 	}
 
 	// Build where clause object from Abstract Syntax Tree
-	private buildWhereClause(
-		ast: ASTNode | null,
-		parentNegated = false,
-		filtered: ASTCondition[] = [],
-		excluded: ASTCondition[] = []
-	): TFilter | undefined {
+	private buildWhereClause(ast: ASTNode | null, filtered: ASTCondition[] = [], excluded: ASTCondition[] = []): TFilter | undefined {
 		if (!ast) return;
 
-		const isNegated = parentNegated || ast.negated === true;
-
-		const buildClause = (node: ASTNode): TFilter | undefined => {
-			switch (node.type) {
-				case "binary": {
-					const leftClause = this.buildWhereClause(node.left, isNegated, filtered, excluded);
-					const rightClause = this.buildWhereClause(node.right, isNegated, filtered, excluded);
-
-					if (!leftClause || !rightClause) {
-						if (leftClause) return leftClause;
-						else if (rightClause) return rightClause;
-						else return;
-					}
-
-					if (node.operator === "&") node.operator = "AND";
-					if (node.operator === "|") node.operator = "OR";
-
-					const left = leftClause[node.operator];
-					const right = rightClause[node.operator];
-					const leftArray = Array.isArray(left) ? left : [leftClause];
-					const rightArray = Array.isArray(right) ? right : [rightClause];
-					return { [node.operator]: [...leftArray, ...rightArray] } as unknown as TFilter;
-				}
-				case "condition": {
-					const cond: ASTCondition = {
-						key: node.key,
-						value: node.value,
-						isRegex: node.token.includes("regex"),
-						isNegated,
-						isNumeric: node.token === "keyword_numeric",
-						isDate: node.token === "keyword_date",
-						operator: node.operator,
-						position: node.position
-					};
-
-					if (node.key === "asc" || node.key === "desc") {
-						excluded.push(cond);
-						return;
-					}
-
-					const filter = this.options.filterFn(cond);
-					if (filter) filtered.push(cond);
-					else excluded.push(cond);
-					return filter;
-				}
+		const negate = (node: ASTNode, clause: TFilter | undefined): TFilter | undefined => {
+			if (clause && node.negated && !(clause.NOT && Object.keys(clause).length === 1)) {
+				return { NOT: clause } as unknown as TFilter;
 			}
+			return clause;
 		};
 
-		const clause = buildClause(ast);
-
-		if (clause && ast.negated && !(clause.NOT && Object.keys(clause).length === 1)) {
-			return { NOT: clause } as unknown as TFilter;
-		}
+		return foldAST<TFilter | undefined>(ast, {
+			binary: (node, leftClause, rightClause) => {
+				if (!leftClause || !rightClause) return negate(node, leftClause ?? rightClause);
+
+				const operator = node.operator === "&" ? "AND" : node.operator === "|" ? "OR" : node.operator;
+				const left = leftClause[operator];
+				const right = rightClause[operator];
+				const leftArray = Array.isArray(left) ? left : [leftClause];
+				const rightArray = Array.isArray(right) ? right : [rightClause];
+				return negate(node, { [operator]: [...leftArray, ...rightArray] } as unknown as TFilter);
+			},
+			condition: (node, { negated }) => {
+				const cond = this.toASTCondition(node, negated);
+
+				if (node.key === "asc" || node.key === "desc") {
+					excluded.push(cond);
+					return;
+				}
 
-		return clause;
+				const filter = this.options.filterFn(cond);
+				if (filter) filtered.push(cond);
+				else excluded.push(cond);
+				return negate(node, filter);
+			}
+		});
 	}
 
 	/**
@@ -250,17 +226,79 @@ export class DrizzleSearchParser<
 		return op && ({ [op]: value } as unknown as TFilter);
 	}
 
+	/**
+	 * Parse a set condition into a Drizzle filter object that matches any of its values.
+	 * @param cond {@linkcode ASTCondition} - The condition to parse.
+	 * @returns The Drizzle filter object.
+	 */
+	parseSet(cond: ASTCondition): TFilter | undefined {
+		if (!cond.isSet || !Array.isArray(cond.value) || !cond.value.length) return;
+
+		return { in: cond.value } as unknown as TFilter;
+	}
+
+	/**
+	 * Parse an existence condition into a Drizzle filter object that matches non-null values.
+	 * A negated condition such as `-key:*` is wrapped in `NOT`, so it matches null values.
+	 * @param cond {@linkcode ASTCondition} - The condition to parse.
+	 * @returns The Drizzle filter object.
+	 */
+	parseExists(cond: ASTCondition): TFilter | undefined {
+		if (!cond.isExists) return;
+
+		return { isNotNull: true } as unknown as TFilter;
+	}
+
+	/**
+	 * Parse a boolean condition into a Drizzle filter value.
+	 * @param cond {@linkcode ASTCondition} - The condition to parse.
+	 * @returns The boolean value, which Drizzle compares for equality.
+	 */
+	parseBoolean(cond: ASTCondition): boolean | undefined {
+		if (!cond.isBoolean || typeof cond.value !== "boolean") return;
+
+		return cond.value;
+	}
+
+	/**
+	 * Parse a wildcard condition into a Drizzle filter object. The `%`, `_`, and `\` characters in the pattern are escaped, so only `*` matches any text.
+	 * @param cond {@linkcode ASTCondition} - The condition to parse.
+	 * @param options {@linkcode ParseWildcardOptions} - The options for the pattern.
+	 * @param options.caseSensitive - Whether to use `like` instead of `ilike`. Defaults to `false`.
+	 * @returns The Drizzle filter object.
+	 */
+	parseWildcard(cond: ASTCondition, options?: ParseWildcardOptions): TFilter | undefined {
+		if (!cond.isWildcard || !cond.segments) return;
+
+		const pattern = cond.segments.map((segment) => segment.replace(/[\\%_]/g, "\\$&")).join("%");
+		return { [options?.caseSensitive ? "like" : "ilike"]: pattern } as unknown as TFilter;
+	}
+
+	/**
+	 * Nest a Drizzle filter under the key of a condition, following the relations in a key path such as `author.name`.
+	 * For example, a filter of `{ ilike: "%tolkien%" }` for `author.name:tolkien` becomes `{ author: { name: { ilike: "%tolkien%" } } }`.
+	 * @param cond {@linkcode ASTCondition} - The condition with the key or key path.
+	 * @param filter - The filter for the column at the end of the path, such as the result of {@linkcode parseNumeric}.
+	 * @returns The Drizzle filter object, or `undefined` if there is no filter or the condition has no key.
+	 */
+	nestFilter(cond: ASTCondition, filter: unknown): TFilter | undefined {
+		const path = cond.path ?? (cond.key ? [cond.key] : []);
+		if (filter === undefined || !path.length) return;
+
+		return path.reduceRight<unknown>((nested, segment) => ({ [segment]: nested }), filter) as TFilter;
+	}
+
 	/**
 	 * Parse a search query into a Drizzle filter object.
 	 * @param query - The search query string.
 	 * @returns The parsed search query. See {@linkcode DrizzleParseResult} for the return type.
 	 */
 	parse(query: string): DrizzleParseResult<TFilter, TOrder> {
-		const { ast, tokens, metadata } = super._parse(query);
+		const { ast, tokens, astConditions, metadata } = super._parse(query);
 
 		const filtered: ASTCondition[] = [];
 		let excluded: ASTCondition[] = [];
-		const where = this.buildWhereClause(ast, false, filtered, excluded);
+		const where = this.buildWhereClause(ast, filtered, excluded);
 
 		const sorted: SortCondition[] = [];
 		const orderBy = (() => {
@@ -289,6 +327,7 @@ export class DrizzleSearchParser<
 		return {
 			tokens,
 			ast,
+			astConditions,
 			metadata,
 			where,
 			orderBy,
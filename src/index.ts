@@ -26,30 +26,69 @@ const LOGICAL_OPERATORS = ["AND", "OR", "&", "|"] as const;
 type LogicalOperator = (typeof LOGICAL_OPERATORS)[number];
 
 const isLogicalOperator = (str: string): str is LogicalOperator => LOGICAL_OPERATORS.includes(str as LogicalOperator);
+const isOrOperator = (operator: LogicalOperator) => operator === "OR" || operator === "|";
 
 /**
  * Represents a numeric operator in a search query.
  */
-export type NumericOperator = "=" | ">" | "<" | ">=" | "<=";
+const NUMERIC_OPERATORS = ["=", "!=", ">", "<", ">=", "<="] as const;
+export type NumericOperator = (typeof NUMERIC_OPERATORS)[number];
 
 /**
- * Represents a token parsed from the search query string.
+ * A range of characters in the query string, from `start` up to but not including `end`.
  */
-export type Token =
-	| { type: "keyword"; key: string; value: string; position: number }
-	| { type: "keyword_phrase"; key: string; value: string; position: number }
-	| { type: "keyword_regex"; key: string; value: string; position: number }
-	| { type: "keyword_numeric"; key: string; operator: NumericOperator; value: number; position: number }
-	| { type: "keyword_date"; key: string; operator: NumericOperator; value: Date; position: number }
-	| { type: "word"; value: string; position: number }
-	| { type: "phrase"; value: string; position: number }
-	| { type: "regex"; value: string; position: number }
-	| { type: "operator"; value: LogicalOperator; position: number }
-	| { type: "open_paren"; negated?: boolean; position: number }
-	| { type: "close_paren"; position: number }
-	| { type: "negation"; position: number };
-
-export type ConditionToken = "keyword" | "keyword_phrase" | "keyword_regex" | "keyword_numeric" | "keyword_date" | "word" | "phrase" | "regex";
+export interface Span {
+	start: number;
+	end: number;
+}
+
+/**
+ * Represents a token parsed from the search query string. The span of a token covers the text it was parsed from.
+ */
+export type Token = Span &
+	(
+		| { type: "keyword"; key: string; originalKey?: string; value: string; position: number }
+		| { type: "keyword_phrase"; key: string; originalKey?: string; value: string; position: number }
+		| { type: "keyword_regex"; key: string; originalKey?: string; value: string; flags?: string; position: number }
+		| { type: "keyword_wildcard"; key: string; originalKey?: string; value: string; segments: string[]; position: number }
+		| { type: "keyword_fuzzy"; key: string; originalKey?: string; value: string; distance: number; position: number }
+		| { type: "keyword_numeric"; key: string; originalKey?: string; operator: NumericOperator; value: number; unit?: string; position: number }
+		| { type: "keyword_date"; key: string; originalKey?: string; operator: NumericOperator; value: Date; position: number }
+		| { type: "keyword_set"; key: string; originalKey?: string; value: string[] | number[]; units?: string[]; position: number }
+		| { type: "keyword_exists"; key: string; originalKey?: string; value: "*"; position: number }
+		| { type: "keyword_boolean"; key: string; originalKey?: string; value: boolean; position: number }
+		| { type: "word"; value: string; position: number }
+		| { type: "phrase"; value: string; position: number }
+		| { type: "regex"; value: string; flags?: string; position: number }
+		| { type: "wildcard"; value: string; segments: string[]; position: number }
+		| { type: "fuzzy"; value: string; distance: number; position: number }
+		| { type: "operator"; value: LogicalOperator; position: number }
+		| { type: "open_paren"; negated?: boolean; position: number }
+		| { type: "close_paren"; position: number }
+		| { type: "negation"; position: number }
+	);
+
+/**
+ * The kinds of tokens that condition nodes are built from.
+ */
+const CONDITION_TOKENS = [
+	"keyword",
+	"keyword_phrase",
+	"keyword_regex",
+	"keyword_wildcard",
+	"keyword_fuzzy",
+	"keyword_numeric",
+	"keyword_date",
+	"keyword_set",
+	"keyword_exists",
+	"keyword_boolean",
+	"word",
+	"phrase",
+	"regex",
+	"wildcard",
+	"fuzzy"
+] as const;
+export type ConditionToken = (typeof CONDITION_TOKENS)[number];
 
 /**
  * Represents a node in the Abstract Syntax Tree (AST) for a search query.
@@ -65,6 +104,14 @@ export interface BinaryNode {
 	left: ASTNode;
 	right: ASTNode;
 	negated?: boolean;
+	/**
+	 * The start of the text the node was parsed from, including a negation or the opening parenthesis of a group. Not set on nodes that were not parsed.
+	 */
+	start?: number;
+	/**
+	 * The end of the text the node was parsed from, including the closing parenthesis of a group. Not set on nodes that were not parsed.
+	 */
+	end?: number;
 }
 
 /**
@@ -74,10 +121,42 @@ export interface ConditionNode {
 	type: "condition";
 	token: ConditionToken;
 	key?: string;
-	value: string | number | Date;
+	/**
+	 * The key as it was written in the query, if it differs from the canonical key.
+	 */
+	originalKey?: string;
+	value: string | number | boolean | Date | string[] | number[];
 	position: number;
+	/**
+	 * The start of the text the node was parsed from, including a negation or the opening parenthesis of a group. Not set on nodes that were not parsed.
+	 */
+	start?: number;
+	/**
+	 * The end of the text the node was parsed from, including the closing parenthesis of a group. Not set on nodes that were not parsed.
+	 */
+	end?: number;
 	negated?: boolean;
 	operator?: NumericOperator;
+	/**
+	 * The flags of a regex pattern, if any (e.g., 'i').
+	 */
+	flags?: string;
+	/**
+	 * The text between the `*` characters of a wildcard pattern (e.g., ['tol', ''] for 'tol*').
+	 */
+	segments?: string[];
+	/**
+	 * The maximum edit distance of a fuzzy term (e.g., 2 for 'tolkein~').
+	 */
+	distance?: number;
+	/**
+	 * The unit a number was written with, if any (e.g., 'GB' for 'size>1.5GB'). The value is in the base unit.
+	 */
+	unit?: string;
+	/**
+	 * The units the numbers of a set were written with, if any has a unit, with an empty string for a number without one (e.g., ['KB', ''] for 'size:(1KB|2048)').
+	 */
+	units?: string[];
 }
 
 /**
@@ -86,20 +165,176 @@ export interface ConditionNode {
 export interface ASTCondition {
 	/** The key for the condition, if any (e.g., 'author'). */
 	key?: string;
-	/** The value for the condition (e.g., 'Tolkien'). */
-	value: string | number | Date;
+	/** The key as it was written in the query, if it differs from the canonical key (e.g., 'a' or 'Author'). */
+	originalKey?: string;
+	/** The segments of the key, if it is a path to a nested field (e.g., ['author', 'name'] for 'author.name' or 'author[name]'). */
+	path?: string[];
+	/** The value for the condition (e.g., 'Tolkien'), or the values of a set (e.g., ['open', 'closed']). */
+	value: string | number | boolean | Date | string[] | number[];
 	/** The position of the condition in the query string. */
 	position: number;
-	/** Whether the condition is negated. */
+	/** The start of the text the condition was parsed from, including a negation or the opening parenthesis of a group. */
+	start?: number;
+	/** The end of the text the condition was parsed from, including the closing parenthesis of a group. */
+	end?: number;
+	/** Whether the condition is negated, either directly or by a parent node. */
 	isNegated: boolean;
 	/** Whether the value is a regex pattern. */
 	isRegex: boolean;
+	/** The flags of the regex pattern, if any (e.g., 'i'). */
+	flags?: string;
+	/** Whether the value is a wildcard pattern, where `*` matches any text (e.g., 'tol*'). */
+	isWildcard: boolean;
+	/** The text between the `*` characters of the wildcard pattern, if applicable (e.g., ['tol', ''] for 'tol*'). */
+	segments?: string[];
+	/** Whether the value is a fuzzy term, which matches words within an edit distance (e.g., 'tolkein~'). */
+	isFuzzy: boolean;
+	/** The maximum edit distance of the fuzzy term, if applicable. */
+	distance?: number;
+	/** Whether the condition matches any of the values of a set (e.g., 'status:open,closed'). */
+	isSet: boolean;
+	/** Whether the condition only checks that the key has a value (e.g., 'has:assignee' or 'assignee:*'). */
+	isExists: boolean;
+	/** Whether the value is a boolean for a key declared as boolean in the schema (e.g., 'archived:true' or 'is:starred'). */
+	isBoolean: boolean;
 	/** Whether the condition is numeric. */
 	isNumeric: boolean;
 	/** Whether the condition is a date. */
 	isDate: boolean;
 	/** The numeric operator, if applicable. */
 	operator?: NumericOperator;
+	/** The unit the number was written with, if any (e.g., 'GB' for 'size>1.5GB'). The value is in the base unit, such as bytes. */
+	unit?: string;
+	/** The units the numbers of a set were written with, if any has a unit, with an empty string for a number without one (e.g., ['KB', ''] for 'size:(1KB|2048)'). */
+	units?: string[];
+}
+
+/**
+ * Declares the type of the values accepted for a key.
+ */
+export type KeyDefinition =
+	{ type: "string" } | { type: "number" } | { type: "date" } | { type: "boolean" } | { type: "enum"; values: readonly string[] };
+
+/**
+ * The units that the numbers of a key can be written with:
+ * - `size` - Bytes, written with `B`, `KB`, `MB`, `GB`, or `TB` in multiples of 1024.
+ * - `duration` - Seconds, written with `ms`, `s`, `m`, `h`, `d`, or `w`.
+ * - `percent` - Percentages, written with `%`. The value is the number as written, so `50%` is 50.
+ */
+export type UnitType = "size" | "duration" | "percent";
+
+/**
+ * Maps keys to the type of values they accept.
+ */
+export type KeySchema<TKey extends string = string> = Partial<Record<TKey, KeyDefinition>>;
+
+// The characters of a word: Unicode letters, marks, numbers, and connectors such as `_`
+const WORD_CHARS = /\p{L}\p{M}\p{N}\p{Pc}/u.source;
+
+// A bare word, which can contain punctuation between its characters and end with `+` or `#`, such as `José`, `sci-fi`, `don't`, or `c++`
+// A word cannot start with punctuation, so that a leading `-` is still a negation
+const WORD = `[${WORD_CHARS}]+(?:[-.'’][${WORD_CHARS}]+)*[+#]*`;
+
+// A key, or a path to a nested field written with dots or brackets, such as `author.name` or `tags[0]`
+const KEY_PATH = /\w+(?:\.\w+|\[\w+\])*/.source;
+
+// The maximum edit distance of a fuzzy term written without one, such as `tolkein~`
+const DEFAULT_FUZZY_DISTANCE = 2;
+
+// The values accepted for boolean keys, and the boolean each one stands for
+const BOOLEAN_VALUES = new Map([
+	["true", true],
+	["yes", true],
+	["1", true],
+	["false", false],
+	["no", false],
+	["0", false]
+]);
+
+// The units of each unit type, matched case-insensitively, and the number of base units in each
+const UNITS: Record<UnitType, ReadonlyMap<string, number>> = {
+	size: new Map([
+		["b", 1],
+		["kb", 1024],
+		["mb", 1024 ** 2],
+		["gb", 1024 ** 3],
+		["tb", 1024 ** 4]
+	]),
+	duration: new Map([
+		["ms", 0.001],
+		["s", 1],
+		["m", 60],
+		["h", 60 * 60],
+		["d", 24 * 60 * 60],
+		["w", 7 * 24 * 60 * 60]
+	]),
+	percent: new Map([["%", 1]])
+};
+
+// The kinds of values that can be written for each key type
+const VALUE_KINDS: Record<KeyDefinition["type"], readonly string[]> = {
+	string: ["text", "phrase", "regex", "wildcard", "fuzzy"],
+	number: ["number"],
+	date: ["date"],
+	boolean: ["text"],
+	enum: ["text", "phrase"]
+};
+
+// The names of the key types in error messages, with their article
+const TYPE_NAMES: Record<KeyDefinition["type"], string> = {
+	string: "a string",
+	number: "a number",
+	date: "a date",
+	boolean: "a boolean",
+	enum: "an enum"
+};
+
+// The first and last millisecond of the span of time covered by a date value, and the unit of that span
+type DateSpan = { start: Date; end: Date; precision: "time" | "day" | "month" | "year" };
+
+// Formatters used to read the wall clock time of an instant in a time zone, cached per time zone
+const wallTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the wall clock time of an instant in a time zone, as a date whose UTC fields hold the wall clock fields. Without a time zone, the wall clock is UTC.
+ * @throws {RangeError} If the time zone is not a valid IANA time zone.
+ */
+function toWallTime(date: Date, timeZone?: string): Date {
+	if (!timeZone) return new Date(date);
+
+	let formatter = wallTimeFormatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric"
+		});
+		wallTimeFormatters.set(timeZone, formatter);
+	}
+
+	const parts = formatter.formatToParts(date);
+	const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+	const wallTime = new Date(Date.UTC(1970, 0, 1, field("hour"), field("minute"), field("second"), date.getUTCMilliseconds()));
+	// Date.UTC maps the years 0 to 99 to 1900 to 1999, so the date is set separately
+	wallTime.setUTCFullYear(field("year"), field("month") - 1, field("day"));
+	return wallTime;
+}
+
+/**
+ * Get the instant at which the wall clock in a time zone shows the UTC fields of a date. Without a time zone, the wall clock is UTC.
+ */
+function fromWallTime(wallTime: Date, timeZone?: string): Date {
+	if (!timeZone) return new Date(wallTime);
+
+	// Estimate the instant with the offset at the wall time, then use the offset at the estimate in case a DST change lies between them
+	const estimate = wallTime.getTime() - (toWallTime(wallTime, timeZone).getTime() - wallTime.getTime());
+	const offset = toWallTime(new Date(estimate), timeZone).getTime() - estimate;
+	return new Date(wallTime.getTime() - offset);
 }
 
 /**
@@ -114,13 +349,78 @@ export interface QueryParserOptions {
 	 * An optional default key to use if no key is specified in the search query.
 	 */
 	defaultKey?: string;
+	/**
+	 * An optional schema declaring the type of each key. Keys in the schema are valid keys in addition to `validKeys`.
+	 *
+	 * Values are coerced to the declared type, and values that do not match it are reported as `type_mismatch` or `invalid_value` errors.
+	 */
+	schema?: KeySchema;
+	/**
+	 * An optional map of aliases to canonical keys. For example, `{ a: "author" }` allows `a:tolkien` to be written for `author:tolkien`.
+	 * If `validKeys` or `schema` are set, an alias for a key that is not valid is rejected like the key itself.
+	 */
+	keyAliases?: Readonly<Record<string, string>>;
+	/**
+	 * Whether keys and aliases are matched case-insensitively, so `Author:tolkien` matches the `author` key. Defaults to `false`.
+	 *
+	 * If there are no valid keys to match against, keys are converted to lowercase.
+	 */
+	caseInsensitiveKeys?: boolean;
+	/**
+	 * Whether `AND` binds tighter than `OR`, so `a OR b c` is parsed as `a OR (b AND c)`. Defaults to `true`.
+	 * Set to `false` to fold operators strictly from left to right, so `a OR b c` is parsed as `(a OR b) AND c`.
+	 */
+	operatorPrecedence?: boolean;
+	/**
+	 * An optional list of words that negate the term after them, in addition to `NOT`. For example, `["NICHT"]` allows `NICHT archived` to be written for `-archived`.
+	 *
+	 * Like `AND` and `OR`, these words are matched case-insensitively. Quote them to search for the word itself.
+	 */
+	negationWords?: readonly string[];
+	/**
+	 * An optional function returning the current time, which relative dates such as `-7d` and `today` are resolved against. Defaults to `() => new Date()`.
+	 *
+	 * Relative dates are only read for keys declared as `date` in the `schema`. For other keys, `title:today` is text.
+	 */
+	now?: () => Date;
+	/**
+	 * An optional IANA time zone, such as `America/Los_Angeles`, in which dates are interpreted.
+	 *
+	 * Full dates, months, and years cover the whole day, month, or year in the time zone, and relative dates are resolved against the current date in the time zone.
+	 * Dates with a time but no offset are read as the wall clock time in the time zone. Dates with `Z` or an offset are not affected.
+	 *
+	 * Without a time zone, dates are interpreted in UTC, except for dates with a time but no offset, which are read in the local time of the host.
+	 */
+	timeZone?: string;
+	/**
+	 * An optional map of keys to functions returning the values to suggest for the key in {@link QueryParser.suggest}. For example, `{ author: () => authors }`.
+	 *
+	 * Each function receives the text of the value before the cursor. Suggestions are filtered by that text, so the functions can return every value.
+	 */
+	valueProviders?: Readonly<Record<string, (prefix: string) => readonly string[]>>;
+	/**
+	 * An optional map of keys to the units their numbers can be written with. For example, `{ size: "size" }` allows `size>1.5GB`, which is converted to bytes.
+	 *
+	 * Numbers without a unit are in the base unit, and the unit is kept in the `unit` property so the query can be written back. Units that are not accepted for the key are reported as `invalid_value` errors.
+	 * See {@linkcode UnitType} for the units of each type.
+	 */
+	units?: Readonly<Record<string, UnitType>>;
 }
 
 export interface ParseError {
 	/**
 	 * The type of error that occurred.
 	 */
-	type: "syntax" | "invalid_key";
+	type:
+		| "syntax"
+		| "invalid_key"
+		| "unbalanced_paren"
+		| "dangling_operator"
+		| "empty_group"
+		| "dangling_negation"
+		| "type_mismatch"
+		| "invalid_value"
+		| "invalid_regex";
 	/**
 	 * The message describing the error.
 	 */
@@ -129,6 +429,14 @@ export interface ParseError {
 	 * The position in the query string where the error occurred.
 	 */
 	position: number;
+	/**
+	 * The start of the text the error applies to.
+	 */
+	start: number;
+	/**
+	 * The end of the text the error applies to.
+	 */
+	end: number;
 	/**
 	 * The key that was invalid, if applicable.
 	 */
@@ -141,9 +449,13 @@ export interface ParseError {
 
 export interface ParseMetadata {
 	/**
-	 * The original query string that was parsed.
+	 * The query string as it was written. Positions and spans are offsets in this string.
 	 */
 	originalQuery: string;
+	/**
+	 * The query string after whitespace was collapsed and trimmed.
+	 */
+	normalizedQuery: string;
 	/**
 	 * The time it took to parse the query.
 	 */
@@ -177,6 +489,70 @@ export interface ParseResult {
 	metadata: ParseMetadata;
 }
 
+/**
+ * A classified part of a query string, for syntax highlighting.
+ */
+export interface HighlightSegment extends Span {
+	/**
+	 * The kind of text:
+	 * - `key` - The key of a term, such as `author` in `author:tolkien` and `has:author`.
+	 * - `operator` - A comparison or range operator, a logical operator, a negation, a parenthesis, or the `has:` or `is:` prefix.
+	 * - `value` - A word, or the value of a term.
+	 * - `phrase` - A quoted phrase, including the quotes.
+	 * - `regex` - A regular expression, including the slashes and flags.
+	 * - `error` - Text that was not parsed or has an error, such as an invalid key.
+	 * - `whitespace` - The space between terms.
+	 */
+	type: "key" | "operator" | "value" | "phrase" | "regex" | "error" | "whitespace";
+	/**
+	 * The text of the segment.
+	 */
+	text: string;
+}
+
+/**
+ * A completion for the term at the cursor.
+ */
+export interface Suggestion {
+	/**
+	 * The kind of completion: a key such as `author:`, a logical operator, a value for a key, or a key to sort by after `asc:` or `desc:`.
+	 */
+	type: "key" | "operator" | "value" | "sort";
+	/**
+	 * The text to insert in place of the replacement range. Values are quoted if needed.
+	 */
+	value: string;
+}
+
+export interface SuggestResult {
+	/**
+	 * What the cursor is in:
+	 * - `empty` - Between terms, or in an empty query.
+	 * - `key` - A word without a key, which can be completed to a key or operator, or the key after `has:` or `is:`.
+	 * - `operator` - A logical operator or negation word, such as `OR` or `NOT`.
+	 * - `value` - The value after a key and a comparison operator, such as `author:tol`.
+	 * - `phrase` - A quoted phrase, with or without a key.
+	 * - `regex` - A regular expression, with or without a key.
+	 */
+	context: "empty" | "key" | "operator" | "value" | "phrase" | "regex";
+	/**
+	 * The canonical key of the value at the cursor, if any.
+	 */
+	key?: string;
+	/**
+	 * The text of the term before the cursor, which the suggestions start with.
+	 */
+	prefix: string;
+	/**
+	 * The range of the query to replace with a suggestion, from `start` up to but not including `end`.
+	 */
+	range: Span;
+	/**
+	 * The completions for the term at the cursor.
+	 */
+	suggestions: Suggestion[];
+}
+
 /**
  * A parser and analyzer for advanced search queries. Supports tokenization and abstract syntax tree generation.
  *
@@ -196,9 +572,9 @@ export interface ParseResult {
  * ### Tokens
  * ```js
  * [
- *   { type: 'keyword', key: 'author', value: 'Tolkien', position: 0 },
- *   { type: 'negation', position: 15 },
- *   { type: 'keyword_phrase', key: 'title', value: 'The Hobbit', position: 16 }
+ *   { type: 'keyword', key: 'author', value: 'Tolkien', position: 0, start: 0, end: 14 },
+ *   { type: 'negation', position: 15, start: 15, end: 16 },
+ *   { type: 'keyword_phrase', key: 'title', value: 'The Hobbit', position: 16, start: 16, end: 34 }
  * ]
  * ```
  * ### Abstract Syntax Tree
@@ -206,20 +582,187 @@ export interface ParseResult {
  * {
  *   type: 'binary',
  *   operator: 'AND',
- *   left: { type: 'condition', token: 'keyword', key: 'author', value: 'Tolkien', position: 0 },
- *   right: { type: 'condition', token: 'keyword_phrase', key: 'title', value: 'The Hobbit', negated: true, position: 16 }
+ *   left: { type: 'condition', token: 'keyword', key: 'author', value: 'Tolkien', position: 0, start: 0, end: 14 },
+ *   right: { type: 'condition', token: 'keyword_phrase', key: 'title', value: 'The Hobbit', negated: true, position: 16, start: 15, end: 34 },
+ *   start: 0,
+ *   end: 34
  * }
  * ```
  * ### AST Conditions
  * ```js
  * [
- *   { key: 'author', value: 'Tolkien', isNegated: false, isRegex: false, isNumeric: false, isDate: false, position: 0 },
- *   { key: 'title', value: 'The Hobbit', isNegated: true, isRegex: false, isNumeric: false, isDate: false, position: 16 }
+ *   { key: 'author', value: 'Tolkien', isNegated: false, isRegex: false, isWildcard: false, isFuzzy: false, isSet: false, isExists: false, isBoolean: false, isNumeric: false, isDate: false, position: 0, start: 0, end: 14 },
+ *   { key: 'title', value: 'The Hobbit', isNegated: true, isRegex: false, isWildcard: false, isFuzzy: false, isSet: false, isExists: false, isBoolean: false, isNumeric: false, isDate: false, position: 16, start: 15, end: 34 }
  * ]
  * ```
  */
 export class QueryParser {
-	constructor(protected options?: QueryParserOptions) {}
+	/**
+	 * @throws {RangeError} If the `timeZone` option is not a valid IANA time zone.
+	 */
+	constructor(protected options?: QueryParserOptions) {
+		if (options?.timeZone) toWallTime(new Date(), options.timeZone);
+	}
+
+	/**
+	 * Resolve a key from the query to its canonical key using the aliases and valid keys. Brackets in a key path are written as dots in the canonical key, so `tags[0]` is `tags.0`.
+	 * @returns The canonical key, or `undefined` if the key is not valid.
+	 */
+	private resolveKey(originalKey: string): string | undefined {
+		const key = originalKey.replace(/\[(\w+)\]/g, ".$1");
+		const { validKeys, schema, keyAliases, caseInsensitiveKeys } = this.options ?? {};
+		const matches = (candidate: string) => (caseInsensitiveKeys ? candidate.toLowerCase() === key.toLowerCase() : candidate === key);
+
+		const alias = Object.keys(keyAliases ?? {}).find(matches);
+		const target = alias && keyAliases?.[alias];
+		if (target) {
+			// An alias is only valid if the key it stands for is, so it cannot be used to search other keys
+			if (!validKeys && !schema) return target;
+			return validKeys?.includes(target) || schema?.[target] ? target : undefined;
+		}
+
+		if (!validKeys && !schema) return caseInsensitiveKeys ? key.toLowerCase() : key;
+		return validKeys?.find(matches) ?? Object.keys(schema ?? {}).find((candidate) => schema?.[candidate] && matches(candidate));
+	}
+
+	/**
+	 * Check if a word negates the term after it, like `NOT`.
+	 */
+	private isNegationWord(value: string): boolean {
+		const upperValue = value.toUpperCase();
+		return upperValue === "NOT" || !!this.options?.negationWords?.some((word) => word.toUpperCase() === upperValue);
+	}
+
+	private keyProps(key: string, originalKey: string): { key: string; originalKey?: string } {
+		return key === originalKey ? { key } : { key, originalKey };
+	}
+
+	/**
+	 * Check a value against the type declared for its key in the schema.
+	 * @returns The value, normalized to `"true"` or `"false"` for boolean keys and to the declared value for enum keys, or the error if the value does not match the declared type.
+	 */
+	private coerceValue(
+		key: string,
+		originalKey: string,
+		kind: "text" | "phrase" | "regex" | "wildcard" | "fuzzy" | "number" | "date",
+		value: string,
+		span: Span
+	): string | ParseError {
+		const definition = this.options?.schema?.[key];
+		if (!definition) return value;
+
+		if (!VALUE_KINDS[definition.type].includes(kind)) {
+			return {
+				type: "type_mismatch",
+				message: `Expected ${TYPE_NAMES[definition.type]} value for ${originalKey}`,
+				position: span.start,
+				...span,
+				key: originalKey,
+				value
+			};
+		}
+
+		const normalized =
+			definition.type === "boolean"
+				? BOOLEAN_VALUES.get(value.toLowerCase())?.toString()
+				: definition.type === "enum"
+					? definition.values.find((v) => v.toLowerCase() === value.toLowerCase())
+					: value;
+		if (normalized === undefined) {
+			return {
+				type: "invalid_value",
+				message: `Invalid value for ${originalKey}: ${value}`,
+				position: span.start,
+				...span,
+				key: originalKey,
+				value
+			};
+		}
+
+		return normalized;
+	}
+
+	/**
+	 * Convert a number written with a unit to the base unit of the units declared for its key.
+	 * @returns The number in the base unit, or the error if the unit is not one of the units of the key.
+	 */
+	private resolveUnit(key: string, originalKey: string, value: string, unit: string | undefined, span: Span): number | ParseError {
+		if (!unit) return parseFloat(value);
+
+		const unitType = this.options?.units?.[key];
+		const factor = unitType ? UNITS[unitType].get(unit.toLowerCase()) : undefined;
+		if (factor === undefined) {
+			return {
+				type: "invalid_value",
+				message: `Invalid unit for ${originalKey}: ${unit}`,
+				position: span.start,
+				...span,
+				key: originalKey,
+				value: `${value}${unit}`
+			};
+		}
+
+		return parseFloat(value) * factor;
+	}
+
+	/**
+	 * Parse an absolute or relative date value into the span of time it covers in the time zone of the parser.
+	 * @returns The span, or `undefined` if the value is not a valid date.
+	 */
+	private resolveDate(value: string): DateSpan | undefined {
+		const timeZone = this.options?.timeZone;
+		const now = this.options?.now?.() ?? new Date();
+		const today = toWallTime(now, timeZone);
+		const [year, month, day] = [today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()];
+
+		// The span of wall clock time from the start of a day, month, or year
+		const span = (start: Date, precision: "day" | "month" | "year"): DateSpan => {
+			const next = new Date(start);
+			if (precision === "day") next.setUTCDate(next.getUTCDate() + 1);
+			else if (precision === "month") next.setUTCMonth(next.getUTCMonth() + 1);
+			else next.setUTCFullYear(next.getUTCFullYear() + 1);
+			return { start: fromWallTime(start, timeZone), end: new Date(fromWallTime(next, timeZone).getTime() - 1), precision };
+		};
+		const instant = (start: Date): DateSpan => ({ start, end: new Date(start), precision: "time" });
+
+		const offset = value.match(/^([+-]\d+)([hdwmy])$/);
+		if (offset) {
+			const [, count = "", unit] = offset;
+			const amount = parseInt(count);
+			if (unit === "h") return instant(new Date(now.getTime() + amount * 60 * 60 * 1000));
+			if (unit === "d" || unit === "w") return span(new Date(Date.UTC(year, month, day + amount * (unit === "w" ? 7 : 1))), "day");
+
+			// Clamp the day to the last day of the target month, so that a month before March 31 is February 28 or 29
+			const target = new Date(Date.UTC(year + (unit === "y" ? amount : 0), month + (unit === "m" ? amount : 0), 1));
+			const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+			target.setUTCDate(Math.min(day, lastDay));
+			return span(target, "day");
+		}
+
+		const days: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+		const relativeDay = days[value];
+		if (relativeDay !== undefined) return span(new Date(Date.UTC(year, month, day + relativeDay)), "day");
+
+		const period = value.match(/^(this|last|next)-(month|year)$/);
+		if (period) {
+			const amount = period[1] === "last" ? -1 : period[1] === "next" ? 1 : 0;
+			if (period[2] === "month") return span(new Date(Date.UTC(year, month + amount, 1)), "month");
+			return span(new Date(Date.UTC(year + amount, 0, 1)), "year");
+		}
+
+		// Full dates, months, and years are parsed as UTC, so their UTC fields are the wall clock fields
+		const calendar = value.match(/^\d{4}(-\d{2}(-\d{2})?)?$/);
+		if (calendar) {
+			const start = new Date(value);
+			if (isNaN(start.getTime())) return undefined;
+			return span(start, calendar[2] ? "day" : calendar[1] ? "month" : "year");
+		}
+
+		const hasOffset = /(?:Z|[+-]\d{2}:\d{2})$/.test(value);
+		const start = timeZone && !hasOffset ? fromWallTime(new Date(`${value.replace(" ", "T")}Z`), timeZone) : new Date(value);
+		if (isNaN(start.getTime())) return undefined;
+		return instant(start);
+	}
 
 	private tokenize(query: string): { tokens: Token[]; errors: ParseError[] } {
 		const errors: ParseError[] = [];
@@ -232,335 +775,830 @@ export class QueryParser {
 		// Negation (negation)
 		regexes.push(/(?: |^)([-!])/g.source);
 
-		const dateTimeRegex = /(\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?)/g.source;
-		const timeRegex = /(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)/g.source;
-		const monthRegex = /(\d{4}-\d{2})/g.source;
-		const yearRegex = /(\d{4})/g.source;
-		const numberRegex = /(-?\d+(?:\.\d+)?)/g.source;
-		const rangeRegex = /\.{2}/g.source;
-
-		// Date and number ranges (keywordRange/date1/date2/month1/month2/year1/year2/numeric1/numeric2)
-		const dateRangeRegex = `${dateTimeRegex}${rangeRegex}${dateTimeRegex}`;
-		const monthRangeRegex = `${monthRegex}${rangeRegex}${monthRegex}`;
-		const yearRangeRegex = `${yearRegex}${rangeRegex}${yearRegex}`;
-		const numberRangeRegex = `${numberRegex}${rangeRegex}${numberRegex}`;
-		regexes.push(`(\\w+)(?::|=)(?:${dateRangeRegex}|${monthRangeRegex}|${yearRangeRegex}|${numberRangeRegex})`);
-
-		// Numeric comparison (keywordNumeric/operator/dateValue/monthValue/yearValue/numericValue)
-		regexes.push(`(\\w+)(:|=|>=|<=|>|<)(?:${dateTimeRegex}|${monthRegex}|${yearRegex}|${numberRegex})`);
+		const dateTimeRegex = /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?/g.source;
+		const monthRegex = /\d{4}-\d{2}/g.source;
+		// A year must not be followed by more digits or a decimal, so that `price:12345` and `price:2024.5` remain numeric
+		const yearRegex = /\d{4}(?!\.?\d)/g.source;
+		// Relative dates are only dates for keys declared as dates in the schema
+		const relativeDateRegex = /(?:[+-]\d+[hdwmy]|today|yesterday|tomorrow|(?:this|last|next)-(?:month|year))(?!\w)/g.source;
+		const absoluteDateRegex = `(?:${dateTimeRegex}|${monthRegex}|${yearRegex})`;
+		const dateRegex = `(?:${dateTimeRegex}|${monthRegex}|${yearRegex}|${relativeDateRegex})`;
+		const numberRegex = /-?\d+(?:\.\d+)?/g.source;
+		// A range with `..<` excludes its end
+		const rangeRegex = /\.{2}<?/g.source;
+		// A unit after a number, such as `GB` in `size>1.5GB`
+		const unitRegex = /[a-zA-Z]+|%/g.source;
+
+		// Existence of a value for a key, written as `has:key` or `key:*` (hasKey/keywordExists)
+		regexes.push(`(?:has:(${KEY_PATH})|(${KEY_PATH}):\\*)(?=[\\s)]|$)`);
+
+		// Boolean flags, written as `is:flag` for `flag:true` (isFlag)
+		regexes.push(`is:(${KEY_PATH})(?=[\\s)]|$)`);
+
+		// Sets of words, numbers, or phrases, separated by `|` in parentheses or by commas (keywordSet/set)
+		const setPhraseRegex = /"(?:[^"\\]|\\.)+"/g.source;
+		const setElementRegex = `(?:${numberRegex}(?![${WORD_CHARS}.])|${WORD}|${setPhraseRegex})`;
+		const setParenRegex = `\\(\\s*${setElementRegex}(?:\\s*\\|\\s*${setElementRegex})*\\s*\\)`;
+		const setListRegex = `${setElementRegex}(?:,${setElementRegex})+`;
+		regexes.push(`(${KEY_PATH}):(${setParenRegex}|${setListRegex})`);
+
+		// Date and number ranges, where one of the ends can be left open and numbers can have units (keywordRange/date1/dateRange/date2/numeric1/unit1/numericRange/numeric2/unit2)
+		const dateRangeRegex = `(?:(${dateRegex})|(?=${rangeRegex}${dateRegex}))(${rangeRegex})(${dateRegex})?`;
+		const numberRangeRegex = `(?:(${numberRegex})(${unitRegex})?|(?=${rangeRegex}${numberRegex}))(${rangeRegex})(?:(${numberRegex})(${unitRegex})?)?`;
+		regexes.push(`(${KEY_PATH})(?::|=)(?:${dateRangeRegex}|${numberRangeRegex})`);
+
+		// Numeric comparison (keywordNumeric/operator/dateValue/numericValue/numericUnit), where `<>` is the same as `!=`
+		regexes.push(`(${KEY_PATH})(:|=|!=|<>|>=|<=|>|<)(?:(${dateRegex})|(${numberRegex}))(${unitRegex})?`);
+
+		// Numbers and ranges for keys with units, which are not dates, so that `duration:-5m` is minus five minutes (unitKey/rangeNumeric1/rangeUnit1/rangeOperator/rangeNumeric2/rangeUnit2/unitOperator/unitNumeric/valueUnit)
+		// The unit runs to the end of the term or an operator, so that text such as `size:1e3` is one invalid term
+		const termUnitRegex = /(?:(?!\.{2})[^\s)|&])+/g.source;
+		// The rest of a term after a number, such as `-video` in `tag:4k-video`
+		const termRestRegex = new RegExp(`(?:${termUnitRegex})?`, "uy");
+		const unitTermRegex = new RegExp(
+			`(${KEY_PATH})(?:(?::|=)(?:(${numberRegex})(${termUnitRegex})?|(?=${rangeRegex}${numberRegex}))(${rangeRegex})(?:(${numberRegex})(${termUnitRegex})?)?|(:|=|!=|<>|>=|<=|>|<)(${numberRegex})(${termUnitRegex})?)(?=[\\s)]|$)`,
+			"uy"
+		);
 
-		// Text (keyword/value/quote/regex) - now includes single-char operators
-		regexes.push(/(?:(\w+):)?(?:(\w+|[&|])|"([^"]+)"|\/([^\/]+)\/)/g.source);
+		// Text (keyword/keywordOperator/fuzzy/distance/wildcard/value/quote/singleQuote/regex/flags/unterminated) - now includes single-char operators
+		// A key followed by `!=` or `<>` instead of `:` negates the term
+		// Phrases and regular expressions can contain their delimiters when escaped with a backslash
+		// A single quote only starts a phrase if it is not preceded by a word character, like an apostrophe would be
+		// A fuzzy term is a word followed by `~` and an optional edit distance, and must end the term so that `hello~world` is not matched
+		const fuzzyRegex = `(${WORD})~(\\d+)?(?=[\\s)]|$)`;
+		// A wildcard pattern contains at least one `*` and one word character, such as `tol*`, `*kien` or `t*n`
+		const wildcardRegex = `((?:[${WORD_CHARS}]+\\*|\\*[${WORD_CHARS}])[${WORD_CHARS}*]*)`;
+		const quoteRegex = /"((?:[^"\\]|\\.)+)"/g.source;
+		const singleQuoteRegex = `(?<![${WORD_CHARS}])'((?:[^'\\\\]|\\\\.)+)'`;
+		const regexLiteralRegex = /\/((?:[^\/\\]|\\.)+)\/(\w*)/g.source;
+		const unterminatedRegex = `("(?:[^"\\\\]|\\\\.)*|(?<![${WORD_CHARS}])'(?:[^'\\\\]|\\\\.)*|\\/(?:[^\\/\\\\]|\\\\.)*)\\\\?$`;
+		regexes.push(
+			`(?:(${KEY_PATH})(:|!=|<>))?(?:${fuzzyRegex}|${wildcardRegex}|(${WORD}|[&|])|${quoteRegex}|${singleQuoteRegex}|${regexLiteralRegex}|${unterminatedRegex})`
+		);
 
 		// Any non-whitespace (other)
 		regexes.push(/([^\s]+)/g.source);
 
-		const regex = new RegExp(regexes.join("|"), "g");
+		const tokenRegex = new RegExp(regexes.join("|"), "gu");
+		// The same terms without relative dates, so that `title:today` is text
+		const absoluteTokenRegex = new RegExp(regexes.join("|").replaceAll(dateRegex, absoluteDateRegex), "uy");
+		const relativeDateValueRegex = new RegExp(`^${relativeDateRegex}$`);
+		const isRelativeDate = (value?: string) => !!value && relativeDateValueRegex.test(value);
 
-		if (!query.match(regex)) {
+		if (!query.match(tokenRegex)) {
 			errors.push({
 				type: "syntax",
 				message: "Unexpected syntax",
 				position: 0,
-				value: query
+				value: query,
+				start: 0,
+				end: query.length
 			});
 		} else {
+			// The position of a term with a relative date for a key that is not a date, which is matched again without relative dates
+			let absoluteIndex: number | undefined;
+			const nextMatch = () => {
+				if (absoluteIndex === undefined) return tokenRegex.exec(query);
+				absoluteTokenRegex.lastIndex = absoluteIndex;
+				absoluteIndex = undefined;
+				const match = absoluteTokenRegex.exec(query);
+				tokenRegex.lastIndex = absoluteTokenRegex.lastIndex;
+				return match;
+			};
+
 			let match: RegExpExecArray | null;
-			while ((match = regex.exec(query))) {
-				const [
+			while ((match = nextMatch())) {
+				let [
 					_,
 					// Logical grouping
 					open,
 					close,
 					// Negation
 					negation,
+					// Existence
+					hasKey,
+					keywordExists,
+					// Boolean flags
+					isFlag,
+					// Sets
+					keywordSet,
+					set,
 					// Date and number ranges
 					keywordRange,
 					date1,
+					dateRange,
 					date2,
-					month1,
-					month2,
-					year1,
-					year2,
 					numeric1,
+					unit1,
+					numericRange,
 					numeric2,
+					unit2,
 					// Numeric comparison
 					keywordNumeric,
 					operator,
 					dateValue,
-					monthValue,
-					yearValue,
 					numericValue,
+					numericUnit,
 					// Text
 					keyword,
+					keywordOperator,
+					fuzzy,
+					distance,
+					wildcard,
 					value,
 					quote,
+					singleQuote,
 					regex,
+					flags,
+					unterminated,
 					// Any non-whitespace
 					other
 				] = match;
 
+				const numericKey = keywordRange || keywordNumeric;
+				if (
+					numericKey &&
+					[date1, date2, dateValue].some(isRelativeDate) &&
+					this.options?.schema?.[this.resolveKey(numericKey) ?? ""]?.type !== "date"
+				) {
+					absoluteIndex = match.index;
+					continue;
+				}
+
+				// Match numbers and ranges for keys with units again without dates
+				if (numericKey && this.options?.units?.[this.resolveKey(numericKey) ?? ""]) {
+					unitTermRegex.lastIndex = match.index;
+					const unitTerm = unitTermRegex.exec(query);
+					if (unitTerm) {
+						const [term, unitKey, rangeNumeric1, rangeUnit1, rangeOperator, rangeNumeric2, rangeUnit2, unitOperator, unitNumeric, valueUnit] =
+							unitTerm;
+						_ = term;
+						[date1, dateRange, date2, dateValue] = [undefined, undefined, undefined, undefined];
+						if (rangeOperator) {
+							[keywordRange, numeric1, unit1, numericRange, numeric2, unit2] = [
+								unitKey,
+								rangeNumeric1,
+								rangeUnit1,
+								rangeOperator,
+								rangeNumeric2,
+								rangeUnit2
+							];
+							[keywordNumeric, operator, numericValue, numericUnit] = [undefined, undefined, undefined, undefined];
+						} else {
+							[keywordNumeric, operator, numericValue, numericUnit] = [unitKey, unitOperator, unitNumeric, valueUnit];
+							[keywordRange, numeric1, unit1, numericRange, numeric2, unit2] = [undefined, undefined, undefined, undefined, undefined, undefined];
+						}
+						tokenRegex.lastIndex = match.index + term.length;
+					}
+				}
+
+				const span: Span = { start: match.index, end: match.index + _.length };
+
+				const reject = (error: ParseError) => {
+					if (tokens.at(-1)?.type === "negation") tokens.pop();
+					errors.push(error);
+				};
+
+				// Negate the next token, or cancel a preceding negation so that `-key!=value` is the same as `key:value`
+				const negate = (position: number, span: Span) => {
+					if (tokens.at(-1)?.type === "negation") tokens.pop();
+					else tokens.push({ type: "negation", position, ...span });
+				};
+
+				// Wrap the bounds of a range in a group, so that a negation or operator applies to the whole range. The group takes the place of a preceding negation.
+				// The parentheses of the group are empty spans at either end of the range, unless the group takes the span of a negation.
+				const pushRange = (bounds: Token[], position: number) => {
+					if (bounds.length < 2) {
+						tokens.push(...bounds);
+						return;
+					}
+					const negation = tokens.at(-1);
+					if (negation?.type === "negation") {
+						tokens.pop();
+						tokens.push({ type: "open_paren", negated: true, position: position, start: negation.start, end: negation.end });
+					} else tokens.push({ type: "open_paren", position: position, start: span.start, end: span.start });
+					tokens.push(...bounds, { type: "close_paren", position: position, start: span.end, end: span.end });
+				};
+
+				if (unterminated) {
+					reject({
+						type: "syntax",
+						message: unterminated.startsWith("/") ? "Unterminated regular expression" : "Unterminated phrase",
+						position: match.index,
+						...span,
+						value: _
+					});
+					continue;
+				}
+
+				// Remove escapes from phrases. Escapes in regular expressions are kept, except for escaped slashes.
+				if (singleQuote) quote = singleQuote;
+				if (quote) quote = quote.replace(/\\(.)/g, "$1");
+				if (regex) regex = regex.replace(/\\(.)/g, (escape, char) => (char === "/" ? char : escape));
+
+				if (regex) {
+					try {
+						new RegExp(regex, flags);
+					} catch (error) {
+						reject({
+							type: "invalid_regex",
+							message: error instanceof Error ? error.message : "Invalid regular expression",
+							position: match.index,
+							...span,
+							value: _
+						});
+						continue;
+					}
+				}
+				const flagProps = flags ? { flags } : {};
+				if (operator === "<>") operator = "!=";
+				if (keywordOperator === "<>") keywordOperator = "!=";
+
+				const originalKey = hasKey || keywordExists || isFlag || keywordSet || keywordRange || keywordNumeric || keyword || "";
+				const key = originalKey ? this.resolveKey(originalKey) : undefined;
+				const keyProps = key ? this.keyProps(key, originalKey) : undefined;
+				// The span of a `!=` or `<>` operator after the key
+				const notEqualSpan: Span = { start: match.index + originalKey.length, end: match.index + originalKey.length + 2 };
+
+				// Reinterpret values according to the type declared for the key in the schema
+				const keyType = key ? this.options?.schema?.[key]?.type : undefined;
+				// Keys with units are numeric, like keys declared as numbers
+				const unitType = key ? this.options?.units?.[key] : undefined;
+				const isNumberKey = keyType === "number" || !!unitType;
+				const isYear = (value?: string) => !!value && /^\d{4}$/.test(value);
+				if (keywordRange && isNumberKey && dateRange && [date1, date2].every((date) => !date || isYear(date))) {
+					[numeric1, numericRange, numeric2] = [date1, dateRange, date2];
+					[date1, dateRange, date2] = [undefined, undefined, undefined];
+				}
+				termRestRegex.lastIndex = span.end;
+				const termRest = keywordNumeric && !unitType ? (termRestRegex.exec(query)?.[0] ?? "") : "";
+				if (keywordNumeric && isNumberKey && isYear(dateValue) && !termRest) {
+					[numericValue, dateValue] = [dateValue, undefined];
+				} else if (
+					keywordNumeric &&
+					(keyType === "string" || keyType === "enum" || keyType === "boolean" || (numericUnit && !keyType && !unitType) || termRest) &&
+					(operator === ":" || operator === "=" || operator === "!=")
+				) {
+					// Text that starts with a number, such as `model:3dfx` or `tag:4k-video`, is a text value up to the end of the term unless the key has units
+					[keyword, keywordOperator, value] = [keywordNumeric, operator, `${dateValue || numericValue}${numericUnit ?? ""}${termRest}`];
+					keywordNumeric = undefined;
+					span.end += termRest.length;
+					tokenRegex.lastIndex = span.end;
+				}
+
 				if (other) {
 					errors.push({
 						type: "syntax",
 						message: "Unexpected syntax",
 						position: match.index,
+						...span,
 						value: other
 					});
 					continue;
 				}
 
+				// The match for groups and negations can include the preceding space
 				if (open) {
-					tokens.push({ type: "open_paren", negated: open.startsWith("-") || open.startsWith("!"), position: match.index });
+					const position = match.index + _.length - open.length;
+					// A negated group cancels a preceding negation, so that `NOT -(a b)` is the same as `(a b)`
+					let negated = open.startsWith("-") || open.startsWith("!");
+					if (negated && tokens.at(-1)?.type === "negation") {
+						tokens.pop();
+						negated = false;
+					}
+					tokens.push({ type: "open_paren", negated, position, start: position, end: span.end });
 				} else if (close) {
-					tokens.push({ type: "close_paren", position: match.index });
+					tokens.push({ type: "close_paren", position: match.index, ...span });
 				} else if (negation) {
-					tokens.push({ type: "negation", position: match.index });
-				} else if (keyword && (value || quote || regex)) {
-					if (this.options?.validKeys && !this.options.validKeys.includes(keyword)) {
-						if (tokens.at(-1)?.type === "negation") tokens.pop();
-						errors.push({
+					const position = match.index + _.length - negation.length;
+					negate(position, { start: position, end: span.end });
+				} else if (keyword && (value || fuzzy || wildcard || quote || regex)) {
+					if (!keyProps) {
+						reject({
 							type: "invalid_key",
-							message: `Invalid key: ${keyword}`,
+							message: `Invalid key: ${originalKey}`,
 							position: match.index,
-							key: keyword,
-							value: value || quote || regex
+							...span,
+							key: originalKey,
+							value: value || fuzzy || wildcard || quote || regex
 						});
 						continue;
 					}
 
-					if (value) {
+					const coerced = this.coerceValue(
+						keyProps.key,
+						originalKey,
+						value ? "text" : fuzzy ? "fuzzy" : wildcard ? "wildcard" : quote ? "phrase" : "regex",
+						value || fuzzy || wildcard || quote || regex || "",
+						span
+					);
+					if (typeof coerced !== "string") {
+						reject(coerced);
+						continue;
+					}
+
+					if (keywordOperator === "!=") negate(match.index, notEqualSpan);
+					if (value && keyType === "boolean") {
+						tokens.push({
+							type: "keyword_boolean",
+							...keyProps,
+							value: coerced === "true",
+							position: match.index,
+							...span
+						});
+					} else if (value) {
 						tokens.push({
 							type: "keyword",
-							key: keyword,
-							value: value,
-							position: match.index
+							...keyProps,
+							value: coerced,
+							position: match.index,
+							...span
+						});
+					} else if (fuzzy) {
+						tokens.push({
+							type: "keyword_fuzzy",
+							...keyProps,
+							value: fuzzy,
+							distance: distance ? parseInt(distance) : DEFAULT_FUZZY_DISTANCE,
+							position: match.index,
+							...span
+						});
+					} else if (wildcard) {
+						tokens.push({
+							type: "keyword_wildcard",
+							...keyProps,
+							value: wildcard,
+							segments: wildcard.split("*"),
+							position: match.index,
+							...span
 						});
 					} else if (quote) {
 						tokens.push({
 							type: "keyword_phrase",
-							key: keyword,
-							value: quote,
-							position: match.index
+							...keyProps,
+							value: coerced,
+							position: match.index,
+							...span
 						});
 					} else if (regex) {
 						tokens.push({
 							type: "keyword_regex",
-							key: keyword,
+							...keyProps,
 							value: regex,
-							position: match.index
+							...flagProps,
+							position: match.index,
+							...span
 						});
 					}
-				} else if (keywordRange) {
-					if (this.options?.validKeys && !this.options.validKeys.includes(keywordRange)) {
-						if (tokens.at(-1)?.type === "negation") tokens.pop();
-						errors.push({
+				} else if (hasKey || keywordExists) {
+					if (!keyProps) {
+						reject({
 							type: "invalid_key",
-							message: `Invalid key: ${keywordRange}`,
+							message: `Invalid key: ${originalKey}`,
 							position: match.index,
-							key: keywordRange,
-							value: date1 || date2 || month1 || month2 || year1 || year2
+							...span,
+							key: originalKey,
+							value: _
 						});
 						continue;
 					}
 
-					if ((date1 && date2) || (month1 && month2) || (year1 && year2)) {
-						let start = new Date(date1 || month1 || year1 || "");
-						if (isNaN(start.getTime())) continue;
-						let end = new Date(date2 || month2 || year2 || "");
-						if (isNaN(end.getTime())) continue;
-
-						if (date1 && !date1.match(timeRegex)) {
-							end.setUTCDate(end.getUTCDate() + 1);
-							end.setMilliseconds(-1);
-						} else if (month1) {
-							end.setUTCMonth(end.getUTCMonth() + 1);
-							end.setMilliseconds(-1);
-						} else if (year1) {
-							end.setUTCFullYear(end.getUTCFullYear() + 1);
-							end.setMilliseconds(-1);
-						}
-
-						if (tokens.at(-1)?.type === "negation") {
-							tokens.pop();
-							tokens.push({ type: "open_paren", negated: true, position: match.index });
-						} else tokens.push({ type: "open_paren", position: match.index });
-						tokens.push({
-							type: "keyword_date",
-							key: keywordRange,
-							operator: ">=",
-							value: start,
-							position: match.index
+					tokens.push({ type: "keyword_exists", ...keyProps, value: "*", position: match.index, ...span });
+				} else if (isFlag) {
+					if (!keyProps) {
+						reject({
+							type: "invalid_key",
+							message: `Invalid key: ${originalKey}`,
+							position: match.index,
+							...span,
+							key: originalKey,
+							value: _
 						});
-						tokens.push({
-							type: "keyword_date",
-							key: keywordRange,
-							operator: "<=",
-							value: end,
-							position: match.index
+						continue;
+					}
+					if (keyType && keyType !== "boolean") {
+						reject({
+							type: "type_mismatch",
+							message: `Expected ${TYPE_NAMES[keyType]} value for ${originalKey}`,
+							position: match.index,
+							...span,
+							key: originalKey,
+							value: _
 						});
-						tokens.push({ type: "close_paren", position: match.index });
-					} else if (numeric1 && numeric2) {
-						let start = parseFloat(numeric1);
-						if (isNaN(start)) continue;
-						let end = parseFloat(numeric2);
-						if (isNaN(end)) continue;
+						continue;
+					}
 
-						tokens.push({
-							type: "keyword_numeric",
-							key: keywordRange,
-							operator: ">=",
-							value: start,
-							position: match.index
+					tokens.push({ type: "keyword_boolean", ...keyProps, value: true, position: match.index, ...span });
+				} else if (keywordSet && set) {
+					if (!keyProps) {
+						reject({
+							type: "invalid_key",
+							message: `Invalid key: ${originalKey}`,
+							position: match.index,
+							...span,
+							key: originalKey,
+							value: set
 						});
-						tokens.push({
-							type: "keyword_numeric",
-							key: keywordRange,
-							operator: "<=",
-							value: end,
-							position: match.index
+						continue;
+					}
+
+					// Like single values, a set of numbers is numeric unless the schema declares the key as text
+					const elements = set.match(new RegExp(setElementRegex, "gu")) ?? [];
+
+					// The values of a set for a key with units are numbers, converted to the base unit like single values. Their units are kept to write them back.
+					if (unitType) {
+						const values: number[] = [];
+						const units: string[] = [];
+						let error: ParseError | undefined;
+						for (const element of elements) {
+							const [, number, unit] = element.match(/^(-?\d+(?:\.\d+)?)(.*)$/) ?? [];
+							if (!number) {
+								error = {
+									type: "invalid_value",
+									message: `Invalid number for ${originalKey}: ${element}`,
+									position: match.index,
+									...span,
+									key: originalKey,
+									value: element
+								};
+								break;
+							}
+							const value = this.resolveUnit(keyProps.key, originalKey, number, unit, span);
+							if (typeof value !== "number") {
+								error = value;
+								break;
+							}
+							values.push(value);
+							units.push(unit ?? "");
+						}
+						if (error) reject(error);
+						else
+							tokens.push({ type: "keyword_set", ...keyProps, value: values, ...(units.some(Boolean) && { units }), position: match.index, ...span });
+						continue;
+					}
+
+					const isNumeric =
+						keyType !== "string" && keyType !== "enum" && keyType !== "boolean" && elements.every((element) => /^-?\d+(?:\.\d+)?$/.test(element));
+
+					const values: string[] = [];
+					let error: ParseError | undefined;
+					for (const element of elements) {
+						const isPhrase = element.startsWith('"');
+						const kind = isPhrase ? "phrase" : isNumeric ? "number" : "text";
+						const coerced = this.coerceValue(
+							keyProps.key,
+							originalKey,
+							kind,
+							isPhrase ? element.slice(1, -1).replace(/\\(.)/g, "$1") : element,
+							span
+						);
+						if (typeof coerced !== "string") {
+							error = coerced;
+							break;
+						}
+						values.push(coerced);
+					}
+					if (error) {
+						reject(error);
+						continue;
+					}
+
+					tokens.push({
+						type: "keyword_set",
+						...keyProps,
+						value: isNumeric ? values.map((value) => parseFloat(value)) : values,
+						position: match.index,
+						...span
+					});
+				} else if (keywordRange) {
+					if (!keyProps) {
+						reject({
+							type: "invalid_key",
+							message: `Invalid key: ${originalKey}`,
+							position: match.index,
+							...span,
+							key: originalKey,
+							value: _.slice(keywordRange.length + 1)
 						});
+						continue;
+					}
+
+					// With both ends, the lower bound spans the key and the start of the range, and the upper bound spans the range operator and the end
+					const rangeStart = match.index + _.indexOf("..", keywordRange.length + 1);
+					const isClosed = !!(date1 || numeric1) && !!(date2 || numeric2);
+					const lowerSpan: Span = isClosed ? { start: span.start, end: rangeStart } : span;
+					const upperSpan: Span = isClosed ? { start: rangeStart, end: span.end } : span;
+
+					const isDate = !!dateRange;
+					const coerced = this.coerceValue(keyProps.key, originalKey, isDate ? "date" : "number", _.slice(keywordRange.length + 1), span);
+					if (typeof coerced !== "string") {
+						reject(coerced);
+						continue;
+					}
+
+					if (dateRange) {
+						const start = date1 ? this.resolveDate(date1) : undefined;
+						const end = date2 ? this.resolveDate(date2) : undefined;
+						if ((date1 && !start) || (date2 && !end)) {
+							reject({
+								type: "invalid_value",
+								message: `Invalid date for key ${originalKey}: ${coerced}`,
+								position: match.index,
+								...span,
+								key: originalKey,
+								value: coerced
+							});
+							continue;
+						}
+
+						// An exclusive end excludes the whole span of the end date
+						const exclusive = dateRange.endsWith("<");
+						const bounds: Token[] = [];
+						if (start) bounds.push({ type: "keyword_date", ...keyProps, operator: ">=", value: start.start, position: match.index, ...lowerSpan });
+						if (end) {
+							bounds.push({
+								type: "keyword_date",
+								...keyProps,
+								operator: exclusive ? "<" : "<=",
+								value: exclusive ? end.start : end.end,
+								position: match.index,
+								...upperSpan
+							});
+						}
+						pushRange(bounds, match.index);
+					} else if (numericRange) {
+						const start = numeric1 ? this.resolveUnit(keyProps.key, originalKey, numeric1, unit1, span) : undefined;
+						const end = numeric2 ? this.resolveUnit(keyProps.key, originalKey, numeric2, unit2, span) : undefined;
+						if (typeof start === "object" || typeof end === "object") {
+							reject(typeof start === "object" ? start : (end as ParseError));
+							continue;
+						}
+						if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+						const exclusive = numericRange.endsWith("<");
+						const bounds: Token[] = [];
+						if (start !== undefined)
+							bounds.push({
+								type: "keyword_numeric",
+								...keyProps,
+								operator: ">=",
+								value: start,
+								...(unit1 && { unit: unit1 }),
+								position: match.index,
+								...lowerSpan
+							});
+						if (end !== undefined)
+							bounds.push({
+								type: "keyword_numeric",
+								...keyProps,
+								operator: exclusive ? "<" : "<=",
+								value: end,
+								...(unit2 && { unit: unit2 }),
+								position: match.index,
+								...upperSpan
+							});
+						pushRange(bounds, match.index);
 					}
 				} else if (keywordNumeric && operator && numericValue) {
-					if (this.options?.validKeys && !this.options.validKeys.includes(keywordNumeric)) {
-						if (tokens.at(-1)?.type === "negation") tokens.pop();
-						errors.push({
+					if (!keyProps) {
+						reject({
 							type: "invalid_key",
-							message: `Invalid key: ${keywordNumeric}`,
+							message: `Invalid key: ${originalKey}`,
 							position: match.index,
-							key: keywordNumeric,
+							...span,
+							key: originalKey,
 							value: numericValue
 						});
 						continue;
 					}
 
-					const value = parseFloat(numericValue);
+					const coerced = this.coerceValue(keyProps.key, originalKey, "number", numericValue, span);
+					if (typeof coerced !== "string") {
+						reject(coerced);
+						continue;
+					}
+
+					const value = this.resolveUnit(keyProps.key, originalKey, numericValue, numericUnit, span);
+					if (typeof value !== "number") {
+						reject(value);
+						continue;
+					}
 					if (isNaN(value)) continue;
 
 					tokens.push({
 						type: "keyword_numeric",
-						key: keywordNumeric,
+						...keyProps,
 						operator: operator === ":" ? "=" : (operator as NumericOperator),
 						value: value,
-						position: match.index
+						...(numericUnit && { unit: numericUnit }),
+						position: match.index,
+						...span
 					});
-				} else if (keywordNumeric && operator && (dateValue || monthValue || yearValue)) {
-					if (this.options?.validKeys && !this.options.validKeys.includes(keywordNumeric)) {
-						if (tokens.at(-1)?.type === "negation") tokens.pop();
-						errors.push({
+				} else if (keywordNumeric && operator && dateValue) {
+					if (!keyProps) {
+						reject({
 							type: "invalid_key",
-							message: `Invalid key: ${keywordNumeric}`,
+							message: `Invalid key: ${originalKey}`,
 							position: match.index,
-							key: keywordNumeric,
-							value: dateValue || monthValue || yearValue
+							...span,
+							key: originalKey,
+							value: dateValue
 						});
 						continue;
 					}
 
-					let start = new Date(dateValue || monthValue || yearValue || "");
-					if (isNaN(start.getTime())) continue;
+					const coerced = this.coerceValue(keyProps.key, originalKey, "date", dateValue, span);
+					if (typeof coerced !== "string") {
+						reject(coerced);
+						continue;
+					}
+
+					const date = numericUnit ? undefined : this.resolveDate(dateValue);
+					if (!date) {
+						reject({
+							type: "invalid_value",
+							message: `Invalid date for key ${originalKey}: ${dateValue}${numericUnit ?? ""}`,
+							position: match.index,
+							...span,
+							key: originalKey,
+							value: `${dateValue}${numericUnit ?? ""}`
+						});
+						continue;
+					}
+					const { start, end } = date;
 
 					let op = operator === ":" ? "=" : (operator as NumericOperator);
 					if (op === "<" || op === ">=") {
 						tokens.push({
 							type: "keyword_date",
-							key: keywordNumeric,
+							...keyProps,
 							operator: op,
 							value: start,
-							position: match.index
+							position: match.index,
+							...span
 						});
 					} else {
-						const end = new Date(start);
-						const hasTime = dateValue?.match(timeRegex);
-						if (dateValue && !hasTime) {
-							end.setUTCDate(end.getUTCDate() + 1);
-							end.setMilliseconds(-1);
-						} else if (monthValue) {
-							end.setUTCMonth(end.getUTCMonth() + 1);
-							end.setMilliseconds(-1);
-						} else if (yearValue) {
-							end.setUTCFullYear(end.getUTCFullYear() + 1);
-							end.setMilliseconds(-1);
-						}
-
 						if (op === "<=" || op === ">") {
 							tokens.push({
 								type: "keyword_date",
-								key: keywordNumeric,
+								...keyProps,
 								operator: op,
 								value: end,
-								position: match.index
+								position: match.index,
+								...span
 							});
-						} else if (hasTime) {
+						} else if (date.precision === "time") {
 							tokens.push({
 								type: "keyword_date",
-								key: keywordNumeric,
-								operator: "=",
+								...keyProps,
+								operator: op,
 								value: start,
-								position: match.index
+								position: match.index,
+								...span
 							});
 						} else {
-							if (tokens.at(-1)?.type === "negation") {
-								tokens.pop();
-								tokens.push({ type: "open_paren", negated: true, position: match.index });
-							} else tokens.push({ type: "open_paren", position: match.index });
-							tokens.push({
-								type: "keyword_date",
-								key: keywordNumeric,
-								operator: ">=",
-								value: start,
-								position: match.index
-							});
-							tokens.push({
-								type: "keyword_date",
-								key: keywordNumeric,
-								operator: "<=",
-								value: end,
-								position: match.index
-							});
-							tokens.push({ type: "close_paren", position: match.index });
+							// A date that is not equal to a span is outside of it
+							if (op === "!=") negate(match.index, notEqualSpan);
+							pushRange(
+								[
+									{ type: "keyword_date", ...keyProps, operator: ">=", value: start, position: match.index, ...span },
+									{ type: "keyword_date", ...keyProps, operator: "<=", value: end, position: match.index, ...span }
+								],
+								match.index
+							);
 						}
 					}
 				} else if (value) {
 					const upperValue = value.toUpperCase();
 
 					if (isLogicalOperator(upperValue)) {
-						tokens.push({ type: "operator", value: upperValue, position: match.index });
+						tokens.push({ type: "operator", value: upperValue, position: match.index, ...span });
+					} else if (this.isNegationWord(value)) {
+						negate(match.index, span);
 					} else if (this.options?.defaultKey) {
-						tokens.push({ type: "keyword", key: this.options.defaultKey, value, position: match.index });
+						tokens.push({ type: "keyword", key: this.options.defaultKey, value, position: match.index, ...span });
+					} else {
+						tokens.push({ type: "word", value, position: match.index, ...span });
+					}
+				} else if (fuzzy) {
+					const maxDistance = distance ? parseInt(distance) : DEFAULT_FUZZY_DISTANCE;
+					if (this.options?.defaultKey) {
+						tokens.push({ type: "keyword_fuzzy", key: this.options.defaultKey, value: fuzzy, distance: maxDistance, position: match.index, ...span });
+					} else {
+						tokens.push({ type: "fuzzy", value: fuzzy, distance: maxDistance, position: match.index, ...span });
+					}
+				} else if (wildcard) {
+					const segments = wildcard.split("*");
+					if (this.options?.defaultKey) {
+						tokens.push({ type: "keyword_wildcard", key: this.options.defaultKey, value: wildcard, segments, position: match.index, ...span });
 					} else {
-						tokens.push({ type: "word", value, position: match.index });
+						tokens.push({ type: "wildcard", value: wildcard, segments, position: match.index, ...span });
 					}
 				} else if (quote) {
 					if (this.options?.defaultKey) {
-						tokens.push({ type: "keyword_phrase", key: this.options.defaultKey, value: quote, position: match.index });
+						tokens.push({ type: "keyword_phrase", key: this.options.defaultKey, value: quote, position: match.index, ...span });
 					} else {
-						tokens.push({ type: "phrase", value: quote, position: match.index });
+						tokens.push({ type: "phrase", value: quote, position: match.index, ...span });
 					}
 				} else if (regex) {
 					if (this.options?.defaultKey) {
-						tokens.push({ type: "keyword_regex", key: this.options.defaultKey, value: regex, position: match.index });
+						tokens.push({ type: "keyword_regex", key: this.options.defaultKey, value: regex, ...flagProps, position: match.index, ...span });
 					} else {
-						tokens.push({ type: "regex", value: regex, position: match.index });
+						tokens.push({ type: "regex", value: regex, ...flagProps, position: match.index, ...span });
 					}
 				}
 			}
 		}
 
-		// Remove consecutive operators or parentheses
+		// Terms with errors are dropped, so the gaps they leave are not reported again as empty groups or missing operands
+		const termErrors = [...errors];
+		const hasDroppedTerm = (start: number, end: number) => termErrors.some((error) => error.start >= start && error.end <= end);
+
+		// Remove unmatched closing parentheses and report unclosed groups, which are closed at the end of the query
+		const openParens: Token[] = [];
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i];
+			if (token?.type === "open_paren") {
+				openParens.push(token);
+			} else if (token?.type === "close_paren" && !openParens.pop()) {
+				errors.push({
+					type: "unbalanced_paren",
+					message: "Unmatched closing parenthesis",
+					position: token.position,
+					start: token.start,
+					end: token.end
+				});
+				tokens.splice(i, 1);
+				i--;
+			}
+		}
+		for (const token of openParens) {
+			errors.push({
+				type: "unbalanced_paren",
+				message: "Unclosed parenthesis",
+				position: token.position,
+				start: token.start,
+				end: token.end
+			});
+		}
+
+		// Remove empty groups, dangling operators, and dangling negations
 		for (let i = 0; i < tokens.length; i++) {
-			if (["open_paren"].includes(tokens[i]?.type || "") && ["close_paren"].includes(tokens[i + 1]?.type || "")) {
+			const prev = tokens[i - 1];
+			const token = tokens[i];
+			const next = tokens[i + 1];
+
+			if (token?.type === "open_paren" && next?.type === "close_paren") {
+				if (!hasDroppedTerm(token.end, next.start)) {
+					errors.push({
+						type: "empty_group",
+						message: "Empty group",
+						position: token.position,
+						start: prev?.type === "negation" ? prev.start : token.start,
+						end: next.end
+					});
+				}
 				tokens.splice(i, 2);
-				if (tokens[i - 1]?.type === "negation") {
+				if (prev?.type === "negation") {
 					tokens.splice(i - 1, 1);
+					i--;
+				}
+			} else if (
+				token?.type === "operator" &&
+				(!prev || !next || ["open_paren", "operator"].includes(prev.type) || ["operator", "close_paren"].includes(next.type))
+			) {
+				const missingLeft = !prev || ["open_paren", "operator"].includes(prev.type);
+				const missingRight = !next || ["operator", "close_paren"].includes(next.type);
+				const explained =
+					(!missingLeft || hasDroppedTerm(prev?.end ?? 0, token.start)) && (!missingRight || hasDroppedTerm(token.end, next?.start ?? Infinity));
+				if (!explained) {
+					errors.push({
+						type: "dangling_operator",
+						message: `Operator ${token.value} is missing an operand`,
+						position: token.position,
+						start: token.start,
+						end: token.end,
+						value: token.value
+					});
 				}
-				i--;
-			} else if (["operator"].includes(tokens[i]?.type || "") && ["operator", "close_paren"].includes(tokens[i + 1]?.type || "")) {
 				tokens.splice(i, 1);
-				i--;
-			} else if (["open_paren"].includes(tokens[i]?.type || "") && ["operator"].includes(tokens[i + 1]?.type || "")) {
-				tokens.splice(i + 1, 1);
+			} else if (token?.type === "negation" && (!next || ["operator", "close_paren"].includes(next.type))) {
+				if (!hasDroppedTerm(token.end, next?.start ?? Infinity)) {
+					errors.push({
+						type: "dangling_negation",
+						message: "Negation is not followed by a term",
+						position: token.position,
+						start: token.start,
+						end: token.end
+					});
+				}
+				tokens.splice(i, 1);
+			} else {
+				continue;
 			}
+
+			// Step back so the tokens around the removed ones are checked again
+			i = Math.max(i - 2, -1);
 		}
 
 		return { tokens, errors };
@@ -568,8 +1606,14 @@ export class QueryParser {
 
 	private buildAST(tokens: Token[]): ASTNode | null {
 		let index = 0;
+		const precedence = this.options?.operatorPrecedence ?? true;
 
 		function parseExpression(): ASTNode | null {
+			return precedence ? parseOr() : parseSequence();
+		}
+
+		// Folds all operators from left to right without precedence
+		function parseSequence(): ASTNode | null {
 			let left = parseTerm();
 			if (!left) return null;
 
@@ -591,7 +1635,52 @@ export class QueryParser {
 				const right = parseTerm();
 				if (!right) break;
 
-				left = { type: "binary", operator, left, right };
+				left = { type: "binary", operator, left, right, start: left.start, end: right.end };
+			}
+
+			return left;
+		}
+
+		// OR has the lowest precedence, so each operand is a sequence of AND terms
+		function parseOr(): ASTNode | null {
+			let left = parseAnd();
+			if (!left) return null;
+
+			while (index < tokens.length) {
+				const currentToken = tokens[index];
+				if (currentToken?.type !== "operator" || !isOrOperator(currentToken.value)) break;
+				index++;
+
+				const right = parseAnd();
+				if (!right) break;
+
+				left = { type: "binary", operator: currentToken.value, left, right, start: left.start, end: right.end };
+			}
+
+			return left;
+		}
+
+		function parseAnd(): ASTNode | null {
+			let left = parseTerm();
+			if (!left) return null;
+
+			while (index < tokens.length) {
+				const currentToken = tokens[index];
+
+				let operator: LogicalOperator;
+				if (currentToken?.type === "operator" && !isOrOperator(currentToken.value)) {
+					operator = currentToken.value;
+					index++;
+				} else if (isStartOfTerm(currentToken)) {
+					operator = "AND";
+				} else {
+					break;
+				}
+
+				const right = parseTerm();
+				if (!right) break;
+
+				left = { type: "binary", operator, left, right, start: left.start, end: right.end };
 			}
 
 			return left;
@@ -607,12 +1696,19 @@ export class QueryParser {
 					const negatedTerm = parseTerm();
 					if (negatedTerm) {
 						negatedTerm.negated = true;
+						negatedTerm.start = token.start;
 					}
 					return negatedTerm;
 
 				case "open_paren":
 					const expr = parseExpression();
-					index++; // consume close_paren
+					// Unclosed groups are closed at the end of the query
+					const close = tokens[index];
+					if (close?.type === "close_paren") index++;
+					if (expr) {
+						expr.start = token.start;
+						if (close?.type === "close_paren") expr.end = close.end;
+					}
 					if (expr && token.negated) {
 						expr.negated = true;
 					}
@@ -620,13 +1716,69 @@ export class QueryParser {
 
 				case "keyword":
 				case "keyword_phrase":
+					return {
+						type: "condition",
+						token: token.type,
+						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
+						value: token.value,
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
 				case "keyword_regex":
 					return {
 						type: "condition",
 						token: token.type,
 						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
+						value: token.value,
+						...(token.flags && { flags: token.flags }),
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
+				case "keyword_wildcard":
+					return {
+						type: "condition",
+						token: token.type,
+						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
+						value: token.value,
+						segments: token.segments,
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
+				case "keyword_fuzzy":
+					return {
+						type: "condition",
+						token: token.type,
+						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
+						value: token.value,
+						distance: token.distance,
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
+				case "keyword_set":
+				case "keyword_exists":
+				case "keyword_boolean":
+					return {
+						type: "condition",
+						token: token.type,
+						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
 						value: token.value,
-						position: token.position
+						...("units" in token && token.units && { units: token.units }),
+						position: token.position,
+						start: token.start,
+						end: token.end
 					};
 
 				case "keyword_numeric":
@@ -635,15 +1787,51 @@ export class QueryParser {
 						type: "condition",
 						token: token.type,
 						key: token.key,
+						...(token.originalKey && { originalKey: token.originalKey }),
 						value: token.value,
 						operator: token.operator,
-						position: token.position
+						...("unit" in token && token.unit && { unit: token.unit }),
+						position: token.position,
+						start: token.start,
+						end: token.end
 					};
 
 				case "word":
 				case "phrase":
+					return { type: "condition", token: token.type, value: token.value, position: token.position, start: token.start, end: token.end };
+
 				case "regex":
-					return { type: "condition", token: token.type, value: token.value, position: token.position };
+					return {
+						type: "condition",
+						token: token.type,
+						value: token.value,
+						...(token.flags && { flags: token.flags }),
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
+				case "wildcard":
+					return {
+						type: "condition",
+						token: token.type,
+						value: token.value,
+						segments: token.segments,
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
+
+				case "fuzzy":
+					return {
+						type: "condition",
+						token: token.type,
+						value: token.value,
+						distance: token.distance,
+						position: token.position,
+						start: token.start,
+						end: token.end
+					};
 
 				default:
 					return null;
@@ -658,33 +1846,45 @@ export class QueryParser {
 		return parseExpression();
 	}
 
-	private extractConditions(ast: ASTNode | null, parentNegated = false): ASTCondition[] {
-		if (!ast) return [];
-
-		const isNegated = parentNegated || ast.negated === true;
-
-		switch (ast.type) {
-			case "binary":
-				return [...this.extractConditions(ast.left, isNegated), ...this.extractConditions(ast.right, isNegated)];
-
-			case "condition":
-				// Only include if not negated and has a value
-				if (ast.value) {
-					return [
-						{
-							key: ast.key,
-							value: ast.value,
-							isNegated,
-							isRegex: ast.token.includes("regex"),
-							isNumeric: ast.token === "keyword_numeric",
-							isDate: ast.token === "keyword_date",
-							operator: ast.operator,
-							position: ast.position
-						}
-					];
-				}
-				return [];
-		}
+	private extractConditions(ast: ASTNode | null): ASTCondition[] {
+		const conditions: ASTCondition[] = [];
+		walkAST(ast, (node, { negated }) => {
+			// Only include if it has a value. False and zero are values.
+			if (node.type === "condition" && node.value !== "") conditions.push(this.toASTCondition(node, negated));
+		});
+		return conditions;
+	}
+
+	/**
+	 * Flatten a condition node into an {@link ASTCondition}.
+	 * @param node The condition node.
+	 * @param isNegated Whether the condition is negated, either directly or by a parent node. See {@link ASTContext.negated}.
+	 */
+	protected toASTCondition(node: ConditionNode, isNegated: boolean): ASTCondition {
+		return {
+			key: node.key,
+			...(node.originalKey && { originalKey: node.originalKey }),
+			...(node.key?.includes(".") && { path: node.key.split(".") }),
+			value: node.value,
+			isNegated,
+			isRegex: node.token.includes("regex"),
+			...(node.flags && { flags: node.flags }),
+			isWildcard: node.token.includes("wildcard"),
+			...(node.segments && { segments: node.segments }),
+			isFuzzy: node.token.includes("fuzzy"),
+			...(node.distance !== undefined && { distance: node.distance }),
+			isSet: node.token === "keyword_set",
+			isExists: node.token === "keyword_exists",
+			isBoolean: node.token === "keyword_boolean",
+			isNumeric: node.token === "keyword_numeric",
+			isDate: node.token === "keyword_date",
+			operator: node.operator,
+			...(node.unit && { unit: node.unit }),
+			...(node.units && { units: node.units }),
+			position: node.position,
+			start: node.start,
+			end: node.end
+		};
 	}
 
 	private normalizeQuery(str: string) {
@@ -697,6 +1897,408 @@ export class QueryParser {
 		);
 	}
 
+	/**
+	 * Map the characters of the normalized query to the query as it was written.
+	 * @returns The index in the query of each character in the normalized query, followed by the end of the trimmed query.
+	 */
+	private normalizedOffsets(query: string): number[] {
+		const offsets: number[] = [];
+		const start = query.length - query.trimStart().length;
+		const end = query.trimEnd().length;
+		for (let i = start; i < end; i++) {
+			// A run of whitespace is normalized to its first character
+			if (i > start && /\s/.test(query[i] ?? "") && /\s/.test(query[i - 1] ?? "")) continue;
+			offsets.push(i);
+		}
+		offsets.push(end);
+		return offsets;
+	}
+
+	/**
+	 * Tokenize a query string as it was written. The query is normalized before it is tokenized, and the positions and spans of the tokens and errors are mapped back to the query.
+	 */
+	private tokenizeQuery(query: string): { normalizedQuery: string; tokens: Token[]; errors: ParseError[] } {
+		const normalizedQuery = this.normalizeQuery(query);
+		const { tokens, errors } = this.tokenize(normalizedQuery);
+		const offsets = this.normalizedOffsets(query);
+		const toQuery = (index: number) => offsets[index] ?? query.length;
+		for (const item of [...tokens, ...errors]) {
+			// The end is exclusive, so it is mapped from the last character of the span to keep trailing whitespace out
+			const end = item.end > item.start ? toQuery(item.end - 1) + 1 : toQuery(item.end);
+			item.position = toQuery(item.position);
+			item.start = toQuery(item.start);
+			item.end = end;
+		}
+		return { normalizedQuery, tokens, errors };
+	}
+
+	private stringifyText(value: string): string {
+		if (new RegExp(`^${WORD}$`, "u").test(value) && !isLogicalOperator(value.toUpperCase()) && !this.isNegationWord(value)) return value;
+		return this.stringifyPhrase(value);
+	}
+
+	// A keyed value can be a logical operator or a negation word, so it only needs quotes if it is not a word
+	private stringifyKeywordValue(value: string): string {
+		if (new RegExp(`^(?:${WORD}|[&|])$`, "u").test(value)) return value;
+		return this.stringifyPhrase(value);
+	}
+
+	// A string in a set that looks like a number is quoted, so that it is not parsed as a number
+	private stringifySetElement(value: string | number): string {
+		if (typeof value === "number") return String(value);
+		if (new RegExp(`^${WORD}$`, "u").test(value) && !/^-?\d+(?:\.\d+)?$/.test(value)) return value;
+		return this.stringifyPhrase(value);
+	}
+
+	private stringifyPhrase(value: string): string {
+		return `"${value.replace(/["\\]/g, "\\$&")}"`;
+	}
+
+	private stringifyRegex(value: string, flags = ""): string {
+		return `/${value.replace(/\\.|\//g, (match) => (match === "/" ? "\\/" : match))}/${flags}`;
+	}
+
+	private stringifyFuzzy(value: string, distance = DEFAULT_FUZZY_DISTANCE): string {
+		return distance === DEFAULT_FUZZY_DISTANCE ? `${value}~` : `${value}~${distance}`;
+	}
+
+	private stringifyNumber(value: number, key?: string, unit?: string): string {
+		const unitType = key ? this.options?.units?.[key] : undefined;
+		const factor = unit && unitType ? UNITS[unitType].get(unit.toLowerCase()) : undefined;
+		// The number is rounded to remove floating point errors from converting it to the base unit and back
+		if (factor) return `${Number((value / factor).toPrecision(15))}${unit}`;
+		// Four-digit integers would be parsed as years, so a decimal is added to keep them numeric
+		if (Number.isInteger(value) && value >= 1000 && value <= 9999) return value.toFixed(1);
+		return String(value);
+	}
+
+	private stringifyDate(value: Date): string {
+		return value.toISOString();
+	}
+
+	/**
+	 * Get the bounds of a range such as `price:10..20`, which is parsed as a group of a lower and an upper bound for the same key.
+	 * @returns The bounds, or `undefined` if the node is not a range.
+	 */
+	private rangeBounds(node: BinaryNode): { lower: ConditionNode; upper: ConditionNode } | undefined {
+		const { left: lower, right: upper } = node;
+		if (node.operator !== "AND" || lower.type !== "condition" || upper.type !== "condition" || lower.negated || upper.negated) return;
+		if (lower.token !== upper.token || (lower.token !== "keyword_numeric" && lower.token !== "keyword_date")) return;
+		if (lower.key !== upper.key || lower.originalKey !== upper.originalKey) return;
+		if (lower.operator !== ">=" || (upper.operator !== "<=" && upper.operator !== "<")) return;
+		return { lower, upper };
+	}
+
+	/**
+	 * Convert an Abstract Syntax Tree back into a canonical query string. Parsing the result produces the same AST, apart from positions.
+	 * @param ast The AST to convert.
+	 * @returns The query string.
+	 *
+	 * @example
+	 * ```ts
+	 * const parser = new QueryParser();
+	 * const { ast } = parser.parse("author:Tolkien -(title:hobbit OR price<=10)");
+	 * parser.stringify(ast); // 'author:Tolkien -(title:hobbit OR price<=10)'
+	 * ```
+	 */
+	stringify(ast: ASTNode): string {
+		const prefix = ast.negated ? "-" : "";
+		const key = ast.type === "condition" ? (ast.originalKey ?? ast.key) : undefined;
+
+		if (ast.type === "binary") {
+			// Ranges are written with the range syntax, which groups the bounds
+			const range = this.rangeBounds(ast);
+			if (range) {
+				const { lower, upper } = range;
+				const bound = (node: ConditionNode) =>
+					node.value instanceof Date ? this.stringifyDate(node.value) : this.stringifyNumber(Number(node.value), node.key, node.unit);
+				return `${prefix}${lower.originalKey ?? lower.key}:${bound(lower)}..${upper.operator === "<" ? "<" : ""}${bound(upper)}`;
+			}
+
+			const precedence = this.options?.operatorPrecedence ?? true;
+			const isOr = isOrOperator(ast.operator);
+			// Operators of the same precedence are folded left to right, so a binary node on the right must be grouped.
+			// With precedence, an OR inside an AND must always be grouped, and an AND inside an OR never needs to be.
+			const needsGroup = (node: ASTNode, side: "left" | "right") => {
+				if (node.type !== "binary" || node.negated || this.rangeBounds(node)) return false;
+				if (!precedence) return side === "right";
+				const childIsOr = isOrOperator(node.operator);
+				if (childIsOr !== isOr) return childIsOr;
+				return side === "right";
+			};
+			const left = needsGroup(ast.left, "left") ? `(${this.stringify(ast.left)})` : this.stringify(ast.left);
+			const right = needsGroup(ast.right, "right") ? `(${this.stringify(ast.right)})` : this.stringify(ast.right);
+			const expression = ast.operator === "AND" ? `${left} ${right}` : `${left} ${ast.operator} ${right}`;
+			return ast.negated ? `-(${expression})` : expression;
+		}
+
+		switch (ast.token) {
+			case "keyword":
+				return `${prefix}${key}:${this.stringifyKeywordValue(String(ast.value))}`;
+			case "keyword_phrase":
+				return `${prefix}${key}:${this.stringifyPhrase(String(ast.value))}`;
+			case "keyword_regex":
+				return `${prefix}${key}:${this.stringifyRegex(String(ast.value), ast.flags)}`;
+			case "keyword_wildcard":
+				return `${prefix}${key}:${ast.value}`;
+			case "keyword_fuzzy":
+				return `${prefix}${key}:${this.stringifyFuzzy(String(ast.value), ast.distance)}`;
+			case "keyword_numeric":
+				return `${prefix}${key}${ast.operator && ast.operator !== "=" ? ast.operator : ":"}${this.stringifyNumber(Number(ast.value), ast.key, ast.unit)}`;
+			case "keyword_date": {
+				const value = ast.value instanceof Date ? this.stringifyDate(ast.value) : String(ast.value);
+				return `${prefix}${key}${ast.operator && ast.operator !== "=" ? ast.operator : ":"}${value}`;
+			}
+			case "keyword_set": {
+				const values: (string | number)[] = Array.isArray(ast.value) ? ast.value : [String(ast.value)];
+				const elements = values.map((value, index) =>
+					typeof value === "number" && ast.units?.[index] ? this.stringifyNumber(value, ast.key, ast.units[index]) : this.stringifySetElement(value)
+				);
+				return `${prefix}${key}:(${elements.join("|")})`;
+			}
+			case "keyword_exists":
+				return `${prefix}${key}:*`;
+			case "keyword_boolean":
+				// `false` can only be written for keys declared as boolean, but `is:` works for any key
+				return ast.value === true ? `${prefix}is:${key}` : `${prefix}${key}:false`;
+			case "word":
+				return `${prefix}${this.stringifyText(String(ast.value))}`;
+			case "phrase":
+				return `${prefix}${this.stringifyPhrase(String(ast.value))}`;
+			case "regex":
+				return `${prefix}${this.stringifyRegex(String(ast.value), ast.flags)}`;
+			case "wildcard":
+				return `${prefix}${ast.value}`;
+			case "fuzzy":
+				return `${prefix}${this.stringifyFuzzy(String(ast.value), ast.distance)}`;
+		}
+	}
+
+	/**
+	 * Get the values to suggest for a key. By default, these are the values from the `valueProviders` option and the values of enum and boolean keys in the schema.
+	 * Override this method to suggest values from another source. The values do not need to be filtered or unique.
+	 * @param key The canonical key.
+	 * @param prefix The text of the value before the cursor.
+	 */
+	protected suggestValues(key: string, prefix: string): readonly string[] {
+		const definition = this.options?.schema?.[key];
+		const schemaValues = definition?.type === "enum" ? definition.values : definition?.type === "boolean" ? ["true", "false"] : [];
+		return [...(this.options?.valueProviders?.[key]?.(prefix) ?? []), ...schemaValues];
+	}
+
+	/**
+	 * Find the term at a cursor position in a query and suggest completions for it.
+	 * @param query The search query string, as it is written in the search box.
+	 * @param cursorPosition The position of the cursor in the query. Defaults to the end of the query.
+	 * @returns What the cursor is in, the completions, and the range of the query they replace. See {@linkcode SuggestResult}.
+	 *
+	 * @example
+	 * ```ts
+	 * const parser = new QueryParser({ validKeys: ["author", "title"], valueProviders: { author: () => ["Tolkien", "Lewis"] } });
+	 * parser.suggest("tolkien au");
+	 * // { context: 'key', prefix: 'au', range: { start: 8, end: 10 }, suggestions: [{ type: 'key', value: 'author:' }] }
+	 * parser.suggest("author:t");
+	 * // { context: 'value', key: 'author', prefix: 't', range: { start: 7, end: 8 }, suggestions: [{ type: 'value', value: 'Tolkien' }] }
+	 * ```
+	 */
+	suggest(query: string, cursorPosition = query.length): SuggestResult {
+		const cursor = Math.max(0, Math.min(cursorPosition, query.length));
+		const { validKeys, schema, defaultKey, negationWords } = this.options ?? {};
+		const keys = [...new Set([...(validKeys ?? []), ...Object.keys(schema ?? {}).filter((key) => schema?.[key])])];
+		const startsWith = (value: string, prefix: string) => value.toLowerCase().startsWith(prefix.toLowerCase());
+		const values = (key: string, prefix: string) => [...new Set(this.suggestValues(key, prefix))].filter((value) => startsWith(value, prefix));
+
+		// Find the start of the term at the cursor. Whitespace and parentheses end a term, except inside phrases, regular expressions, and sets.
+		let start = 0;
+		let delimiter: string | undefined;
+		let delimiterStart = 0;
+		for (let i = 0; i < cursor; i++) {
+			const char = query[i] ?? "";
+			if (delimiter) {
+				if (char === "\\") i++;
+				else if (char === delimiter) delimiter = undefined;
+			} else if (/\s|\)/.test(char) || (char === "(" && query[i - 1] !== ":")) {
+				start = i + 1;
+			} else if (char === '"' || char === "/" || (char === "'" && !new RegExp(`[${WORD_CHARS}]`, "u").test(query[i - 1] ?? ""))) {
+				delimiter = char;
+				delimiterStart = i;
+			}
+		}
+		if (/[-!]/.test(query[start] ?? "") && start < cursor) start++;
+
+		// Find the end of the term, which includes the closing delimiter of a phrase or regular expression
+		let end = cursor;
+		if (delimiter) {
+			while (end < query.length && query[end] !== delimiter) end += query[end] === "\\" ? 2 : 1;
+			end = Math.min(end + 1, query.length);
+		} else {
+			while (end < query.length && !/[\s()|,]/.test(query[end] ?? "")) end++;
+		}
+
+		const context = delimiter === "/" ? "regex" : delimiter ? "phrase" : undefined;
+		const keyword = query.slice(start, cursor).match(new RegExp(`^(${KEY_PATH})(:|!=|<>|>=|<=|>|<|=)`));
+		const originalKey = keyword?.[1] ?? "";
+
+		// The key after `has:` or `is:` is completed like a key, but without the `:`
+		if (keyword && keyword[2] === ":" && (originalKey === "has" || originalKey === "is") && !context) {
+			const valueStart = start + keyword[0].length;
+			const prefix = query.slice(valueStart, cursor);
+			const booleanKeys = keys.filter((key) => schema?.[key]?.type === "boolean");
+			const candidates = originalKey === "is" && schema ? booleanKeys : keys;
+			return {
+				context: "key",
+				prefix,
+				range: { start: valueStart, end },
+				suggestions: candidates.filter((key) => startsWith(key, prefix)).map((key) => ({ type: "key", value: key }))
+			};
+		}
+
+		const key = keyword ? this.resolveKey(originalKey) : context === "phrase" ? defaultKey : undefined;
+		if (keyword || context) {
+			// A phrase or regular expression is replaced from its opening delimiter, and the value of a set element starts after the last separator
+			let valueStart = start + (keyword?.[0].length ?? 0);
+			const value = query.slice(valueStart, cursor);
+			if (context) valueStart = delimiterStart;
+			else valueStart += Math.max(value.lastIndexOf("("), value.lastIndexOf("|"), value.lastIndexOf(",")) + 1;
+			const prefix = query.slice(context ? valueStart + 1 : valueStart, cursor);
+
+			let suggestions: Suggestion[] = [];
+			if (key === "asc" || key === "desc") {
+				suggestions = keys
+					.filter((target) => target !== "asc" && target !== "desc" && startsWith(target, prefix))
+					.map((target) => ({ type: "sort", value: target }));
+			} else if (key && context !== "regex") {
+				suggestions = values(key, prefix).map((value) => ({
+					type: "value",
+					value: context === "phrase" ? this.stringifyPhrase(value) : this.stringifyText(value)
+				}));
+			}
+
+			return { context: context ?? "value", ...(key && { key }), prefix, range: { start: valueStart, end }, suggestions };
+		}
+
+		// If the cursor is in the key of a keyword, only the key is replaced, so that the operator and value after it are kept
+		const keyOfTerm = query.slice(start, end).match(new RegExp(`^(${KEY_PATH})(?::|!=|<>|>=|<=|>|<|=)`));
+		if (keyOfTerm?.[1]) {
+			const prefix = query.slice(start, cursor);
+			return {
+				context: "key",
+				prefix,
+				range: { start, end: start + keyOfTerm[1].length },
+				suggestions: keys.filter((key) => startsWith(key, prefix)).map((key) => ({ type: "key", value: key }))
+			};
+		}
+
+		// A word without a key can be completed to a key, an operator, or a value of the default key
+		const prefix = query.slice(start, cursor);
+		const word = query.slice(start, end);
+		// `AND` and `OR` are only suggested after a term, since they need an operand on both sides
+		const before = query.slice(0, start).trim();
+		const lastWord = before.match(/\S+$/)?.[0] ?? "";
+		const isAfterTerm = !!before && !/[-!(]$/.test(before) && !isLogicalOperator(lastWord.toUpperCase()) && !this.isNegationWord(lastWord);
+		const operators = [...(isAfterTerm ? LOGICAL_OPERATORS.filter((operator) => /\w/.test(operator)) : []), "NOT", ...(negationWords ?? [])];
+		const suggestions: Suggestion[] = [
+			...keys.filter((key) => startsWith(key, prefix)).map((key): Suggestion => ({ type: "key", value: `${key}:` })),
+			...operators.filter((operator) => startsWith(operator, prefix)).map((operator): Suggestion => ({ type: "operator", value: operator }))
+		];
+		if (defaultKey && prefix) {
+			suggestions.push(...values(defaultKey, prefix).map((value): Suggestion => ({ type: "value", value: this.stringifyText(value) })));
+		}
+
+		const isOperator = !!word && (isLogicalOperator(word.toUpperCase()) || this.isNegationWord(word));
+		return { context: !word ? "empty" : isOperator ? "operator" : "key", prefix, range: { start, end }, suggestions };
+	}
+
+	/**
+	 * Split a query string into classified segments for syntax highlighting. The segments cover the whole string, including whitespace, in order.
+	 * @param query The search query string, as it is written in the search box.
+	 * @returns The segments. See {@linkcode HighlightSegment}.
+	 *
+	 * @example
+	 * ```ts
+	 * const parser = new QueryParser({ validKeys: ["author"] });
+	 * parser.highlight("author:tolkien -x:y");
+	 * // [
+	 * //   { type: 'key', start: 0, end: 6, text: 'author' },
+	 * //   { type: 'operator', start: 6, end: 7, text: ':' },
+	 * //   { type: 'value', start: 7, end: 14, text: 'tolkien' },
+	 * //   { type: 'whitespace', start: 14, end: 15, text: ' ' },
+	 * //   { type: 'error', start: 15, end: 19, text: '-x:y' }
+	 * // ]
+	 * ```
+	 */
+	highlight(query: string): HighlightSegment[] {
+		const { tokens, errors } = this.tokenizeQuery(query);
+
+		// Text is an error until it is covered by a token
+		const types = query.split("").map((char): HighlightSegment["type"] => (/\s/.test(char) ? "whitespace" : "error"));
+		const paint = (start: number, end: number, type: HighlightSegment["type"]) => types.fill(type, start, end);
+
+		for (const token of tokens) {
+			switch (token.type) {
+				case "open_paren":
+				case "close_paren":
+				case "negation":
+				case "operator":
+					paint(token.start, token.end, "operator");
+					break;
+				case "phrase":
+				case "regex":
+					paint(token.start, token.end, token.type);
+					break;
+				case "word":
+				case "wildcard":
+				case "fuzzy":
+					paint(token.start, token.end, "value");
+					break;
+				default: {
+					// In `has:key` and `is:key`, the prefix is an operator and the key follows it
+					const flag =
+						(token.type === "keyword_exists" || token.type === "keyword_boolean") &&
+						query.slice(token.start, token.end).match(new RegExp(`^(?:has|is):(?=${KEY_PATH}$)`));
+					if (flag) {
+						paint(token.start, token.start + flag[0].length, "operator");
+						paint(token.start + flag[0].length, token.end, "key");
+						break;
+					}
+
+					// Tokens for the default key do not include a key
+					const keyword = query.slice(token.start, token.end).match(new RegExp(`^(${KEY_PATH})(:|!=|<>|>=|<=|>|<|=)`));
+					const valueStart = token.start + (keyword?.[0].length ?? 0);
+					if (keyword?.[1]) paint(token.start, token.start + keyword[1].length, "key");
+					paint(token.start + (keyword?.[1]?.length ?? 0), valueStart, "operator");
+					paint(valueStart, token.end, token.type === "keyword_phrase" ? "phrase" : token.type === "keyword_regex" ? "regex" : "value");
+
+					const range = (token.type === "keyword_numeric" || token.type === "keyword_date") && query.slice(valueStart, token.end).match(/\.{2}<?/);
+					if (range) paint(valueStart + (range.index ?? 0), valueStart + (range.index ?? 0) + range[0].length, "operator");
+				}
+			}
+		}
+		for (const error of errors) paint(error.start, error.end, "error");
+
+		const segments: HighlightSegment[] = [];
+		for (let i = 0; i < query.length; i++) {
+			const type = types[i] ?? "error";
+			const last = segments.at(-1);
+			if (last?.type === type) {
+				last.end = i + 1;
+				last.text += query[i];
+			} else {
+				segments.push({ type, start: i, end: i + 1, text: query[i] ?? "" });
+			}
+		}
+		return segments;
+	}
+
+	/**
+	 * Parse a search query string into tokens, an Abstract Syntax Tree, and an array of conditions.
+	 * @param query The search query string to parse.
+	 * @returns An object containing the tokens, AST, and extracted conditions.
+	 */
+	parse(query: string): ParseResult {
+		return this._parse(query);
+	}
+
 	/**
 	 * Parse a search query string into tokens, an Abstract Syntax Tree, and an array of conditions.
 	 * @param query The search query string to parse.
@@ -704,8 +2306,7 @@ export class QueryParser {
 	 */
 	protected _parse(query: string): ParseResult {
 		const start = performance.now();
-		query = this.normalizeQuery(query);
-		const { tokens, errors } = this.tokenize(query);
+		const { normalizedQuery, tokens, errors } = this.tokenizeQuery(query);
 		const ast = this.buildAST(tokens);
 		const astConditions = this.extractConditions(ast);
 		return {
@@ -714,6 +2315,7 @@ export class QueryParser {
 			astConditions,
 			metadata: {
 				originalQuery: query,
+				normalizedQuery,
 				parseTime: performance.now() - start,
 				hasErrors: errors.length > 0,
 				errors
@@ -721,3 +2323,377 @@ export class QueryParser {
 		};
 	}
 }
+
+/**
+ * The version of the JSON encoding written by {@link toJSON}. {@link fromJSON} rejects other versions.
+ */
+export const JSON_VERSION = 1;
+
+/**
+ * An AST or parse result decoded by {@link fromJSON}. The tokens, conditions, and metadata are only included if a {@link ParseResult} was encoded.
+ */
+export type DecodedJSON = Pick<ParseResult, "ast"> & Partial<Omit<ParseResult, "ast">>;
+
+/**
+ * Options for validating an AST with {@link validateAST} and {@link fromJSON}.
+ */
+export interface ValidateASTOptions {
+	/**
+	 * An optional list of valid keys. If specified, conditions with other keys are rejected.
+	 */
+	validKeys?: readonly string[];
+	/**
+	 * The maximum depth of the tree, where a single condition has a depth of 1. Defaults to 100.
+	 */
+	maxDepth?: number;
+	/**
+	 * The maximum number of nodes in the tree. Defaults to 1000.
+	 */
+	maxNodes?: number;
+}
+
+/**
+ * An error thrown by {@link validateAST} and {@link fromJSON} when JSON or a tree is malformed or exceeds the limits.
+ */
+export class ASTValidationError extends Error {
+	/**
+	 * @param message The problem with the value.
+	 * @param path The path of the value in the JSON, such as `ast.left.value`.
+	 */
+	constructor(
+		message: string,
+		public readonly path: string
+	) {
+		super(`${message} at ${path}`);
+		this.name = "ASTValidationError";
+	}
+}
+
+// The properties allowed on each type of node. Any other property is rejected, so hostile properties such as `__proto__` never reach a parser.
+const NODE_PROPERTIES: Record<ASTNode["type"], readonly string[]> = {
+	binary: ["type", "operator", "left", "right", "negated", "start", "end"],
+	condition: [
+		"type",
+		"token",
+		"key",
+		"originalKey",
+		"value",
+		"position",
+		"start",
+		"end",
+		"negated",
+		"operator",
+		"flags",
+		"segments",
+		"distance",
+		"unit",
+		"units"
+	]
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Dates are encoded as `{ "$date": "<ISO 8601 date>" }`, since JSON has no date type
+function encodeDates(value: unknown): unknown {
+	if (value instanceof Date) return { $date: value.toISOString() };
+	if (Array.isArray(value)) return value.map(encodeDates);
+	if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([key, property]) => [key, encodeDates(property)]));
+	return value;
+}
+
+function reviveDate(_key: string, value: unknown): unknown {
+	if (isRecord(value) && Object.keys(value).length === 1 && typeof value.$date === "string") return new Date(value.$date);
+	return value;
+}
+
+/**
+ * Encode an AST or a parse result as versioned JSON, which {@link fromJSON} decodes. Dates are written as `{ "$date": "<ISO 8601 date>" }`, so they are revived as dates.
+ * @param value The AST, or the result of {@link QueryParser.parse}. Only the tokens, AST, conditions, and metadata of a result are encoded.
+ * @returns The JSON string.
+ *
+ * @example
+ * ```ts
+ * const { ast } = new QueryParser().parse("created>=2024-01-01");
+ * toJSON(ast);
+ * // '{"version":1,"ast":{"type":"condition","token":"keyword_date","key":"created","value":{"$date":"2024-01-01T00:00:00.000Z"},"operator":">=",...}}'
+ * ```
+ */
+export function toJSON(value: ASTNode | ParseResult | null): string {
+	if (value && "metadata" in value) {
+		const { tokens, ast, astConditions, metadata } = value;
+		return JSON.stringify(encodeDates({ version: JSON_VERSION, tokens, ast, astConditions, metadata }));
+	}
+	return JSON.stringify(encodeDates({ version: JSON_VERSION, ast: value }));
+}
+
+/**
+ * Decode JSON written by {@link toJSON}, reviving dates and validating the AST with {@link validateAST}.
+ * @param json The JSON string.
+ * @param options Limits and valid keys for the AST. See {@linkcode ValidateASTOptions}.
+ * @returns The AST, and the tokens, conditions, and metadata if a parse result was encoded.
+ * @throws {ASTValidationError} If the JSON is malformed, has another version, or the AST is not valid.
+ */
+export function fromJSON(json: string, options?: ValidateASTOptions): DecodedJSON {
+	let data: unknown;
+	try {
+		data = JSON.parse(json, reviveDate);
+	} catch (error) {
+		throw new ASTValidationError(error instanceof Error ? error.message : "Invalid JSON", "$");
+	}
+
+	if (!isRecord(data)) throw new ASTValidationError("Expected an object", "$");
+	if (data.version !== JSON_VERSION) throw new ASTValidationError(`Unsupported version ${String(data.version)}`, "version");
+
+	const { version, ast, tokens, astConditions, metadata, ...rest } = data;
+	const unknownKey = Object.keys(rest)[0];
+	if (unknownKey !== undefined) throw new ASTValidationError(`Unknown property ${unknownKey}`, unknownKey);
+	if (ast !== null) validateAST(ast, options, "ast");
+	if (tokens === undefined && astConditions === undefined && metadata === undefined) return { ast };
+
+	// The tokens and conditions of a result are derived from the AST, so only their shape is checked
+	if (!Array.isArray(tokens) || !tokens.every(isRecord)) throw new ASTValidationError("Expected an array of tokens", "tokens");
+	if (!Array.isArray(astConditions) || !astConditions.every(isRecord))
+		throw new ASTValidationError("Expected an array of conditions", "astConditions");
+	if (!isRecord(metadata) || !Array.isArray(metadata.errors)) throw new ASTValidationError("Expected metadata with errors", "metadata");
+	return { ast, tokens, astConditions, metadata } as unknown as DecodedJSON;
+}
+
+/**
+ * Check that a value is a well-formed AST, such as one received from a client, before it is filtered or converted to a database query.
+ * Nodes must have known types, tokens, and operators, values of the type of their token, and no other properties. Regular expressions must be valid.
+ * @param value The value to check.
+ * @param options Limits and valid keys for the tree. See {@linkcode ValidateASTOptions}.
+ * @param path The path of the value, used in error messages. Defaults to `ast`.
+ * @throws {ASTValidationError} If the value is not a valid AST or exceeds the limits.
+ */
+export function validateAST(value: unknown, options?: ValidateASTOptions, path = "ast"): asserts value is ASTNode {
+	const maxDepth = options?.maxDepth ?? 100;
+	const maxNodes = options?.maxNodes ?? 1000;
+	let nodes = 0;
+
+	const fail = (message: string, at: string): never => {
+		throw new ASTValidationError(message, at);
+	};
+	const isOffset = (offset: unknown) => typeof offset === "number" && Number.isInteger(offset) && offset >= 0;
+	const isStringArray = (array: unknown): array is string[] => Array.isArray(array) && array.every((element) => typeof element === "string");
+
+	const check = (node: unknown, at: string, depth: number): void => {
+		if (depth > maxDepth) fail(`Tree is deeper than ${maxDepth}`, at);
+		if (++nodes > maxNodes) fail(`Tree has more than ${maxNodes} nodes`, at);
+		if (!isRecord(node)) return fail("Expected a node", at);
+		if (node.type !== "binary" && node.type !== "condition") return fail(`Unknown node type ${String(node.type)}`, `${at}.type`);
+
+		const unknownKey = Object.keys(node).find((key) => !NODE_PROPERTIES[node.type as ASTNode["type"]].includes(key));
+		if (unknownKey !== undefined) fail(`Unknown property ${unknownKey}`, `${at}.${unknownKey}`);
+		if (node.negated !== undefined && typeof node.negated !== "boolean") fail("Expected a boolean", `${at}.negated`);
+		if (node.start !== undefined && !isOffset(node.start)) fail("Expected an offset", `${at}.start`);
+		if (node.end !== undefined && !isOffset(node.end)) fail("Expected an offset", `${at}.end`);
+
+		if (node.type === "binary") {
+			if (!LOGICAL_OPERATORS.includes(node.operator as LogicalOperator)) fail(`Unknown operator ${String(node.operator)}`, `${at}.operator`);
+			check(node.left, `${at}.left`, depth + 1);
+			check(node.right, `${at}.right`, depth + 1);
+			return;
+		}
+
+		const token = node.token as ConditionToken;
+		if (!CONDITION_TOKENS.includes(token)) fail(`Unknown token ${String(node.token)}`, `${at}.token`);
+		if (!isOffset(node.position)) fail("Expected an offset", `${at}.position`);
+		if (token.startsWith("keyword") ? typeof node.key !== "string" : node.key !== undefined && typeof node.key !== "string")
+			fail("Expected a key", `${at}.key`);
+		if (typeof node.key === "string" && options?.validKeys && !options.validKeys.includes(node.key)) fail(`Invalid key ${node.key}`, `${at}.key`);
+		if (node.originalKey !== undefined && typeof node.originalKey !== "string") fail("Expected a string", `${at}.originalKey`);
+		if (node.operator !== undefined && !NUMERIC_OPERATORS.includes(node.operator as NumericOperator))
+			fail(`Unknown operator ${String(node.operator)}`, `${at}.operator`);
+		if (node.flags !== undefined && typeof node.flags !== "string") fail("Expected a string", `${at}.flags`);
+		if (node.segments !== undefined && !isStringArray(node.segments)) fail("Expected an array of strings", `${at}.segments`);
+		if (node.distance !== undefined && !isOffset(node.distance)) fail("Expected a non-negative integer", `${at}.distance`);
+		if (node.unit !== undefined && typeof node.unit !== "string") fail("Expected a string", `${at}.unit`);
+		if (node.units !== undefined && !isStringArray(node.units)) fail("Expected an array of strings", `${at}.units`);
+
+		const { value } = node;
+		switch (token) {
+			case "keyword_numeric":
+				if (typeof value !== "number" || !Number.isFinite(value)) fail("Expected a number", `${at}.value`);
+				break;
+			case "keyword_date":
+				if (!(value instanceof Date) || isNaN(value.getTime())) fail("Expected a date", `${at}.value`);
+				break;
+			case "keyword_set":
+				if (!Array.isArray(value) || !value.length || !(isStringArray(value) || value.every((element) => typeof element === "number")))
+					fail("Expected an array of strings or numbers", `${at}.value`);
+				break;
+			case "keyword_exists":
+				if (value !== "*") fail('Expected "*"', `${at}.value`);
+				break;
+			case "keyword_boolean":
+				if (typeof value !== "boolean") fail("Expected a boolean", `${at}.value`);
+				break;
+			case "regex":
+			case "keyword_regex":
+				if (typeof value !== "string") return fail("Expected a string", `${at}.value`);
+				try {
+					new RegExp(value, typeof node.flags === "string" ? node.flags : undefined);
+				} catch {
+					fail("Invalid regular expression", `${at}.value`);
+				}
+				break;
+			default:
+				if (typeof value !== "string") fail("Expected a string", `${at}.value`);
+		}
+	};
+
+	check(value, path, 1);
+}
+
+/**
+ * The context of a node in an AST, passed to the functions of {@link walkAST}, {@link foldAST}, {@link mapAST}, and {@link filterAST}.
+ */
+export interface ASTContext {
+	/**
+	 * Whether the node is negated, either directly or by a parent node, like {@link ASTCondition.isNegated}.
+	 * Negations do not cancel out, so `b` in `-(a -b)` is negated. Use the `negated` property of the node and its parents to tell whether it matches.
+	 */
+	negated: boolean;
+	/**
+	 * The sides taken from the root to reach the node, such as `["left", "right"]`. The path of the root is empty. Built when read.
+	 */
+	path: readonly ("left" | "right")[];
+	/**
+	 * The binary nodes from the root to the parent of the node. The root has no parents. Built when read.
+	 */
+	parents: readonly BinaryNode[];
+}
+
+// A link from a node to its parent, so that visiting a node does not copy the path to it
+interface ASTLink {
+	parent: BinaryNode;
+	side: "left" | "right";
+	up: ASTLink | undefined;
+}
+
+const collectLinks = <T>(link: ASTLink | undefined, pick: (link: ASTLink) => T): T[] => {
+	const items: T[] = [];
+	for (let current = link; current; current = current.up) items.push(pick(current));
+	return items.reverse();
+};
+
+const toContext = (negated: boolean, link: ASTLink | undefined): ASTContext => ({
+	negated,
+	get path() {
+		return collectLinks(link, (current) => current.side);
+	},
+	get parents() {
+		return collectLinks(link, (current) => current.parent);
+	}
+});
+
+const childLink = (parent: BinaryNode, side: "left" | "right", up: ASTLink | undefined): ASTLink => ({ parent, side, up });
+
+/**
+ * Visit the nodes of an AST depth first, with each parent before its children and the left side before the right.
+ * @param ast The AST to walk.
+ * @param visit The function called with each node and its context. Return `false` to skip the children of a node.
+ *
+ * @example
+ * ```ts
+ * const { ast } = new QueryParser().parse("a -(b OR -c)");
+ * walkAST(ast, (node, { negated }) => {
+ *   if (node.type === "condition") console.log(node.value, negated);
+ * });
+ * // a false, b true, c true
+ * ```
+ */
+export function walkAST(ast: ASTNode | null, visit: (node: ASTNode, context: ASTContext) => boolean | void): void {
+	const walk = (node: ASTNode, negated: boolean, link: ASTLink | undefined) => {
+		negated ||= node.negated === true;
+		if (visit(node, toContext(negated, link)) === false || node.type !== "binary") return;
+		walk(node.left, negated, childLink(node, "left", link));
+		walk(node.right, negated, childLink(node, "right", link));
+	};
+	if (ast) walk(ast, false, undefined);
+}
+
+/**
+ * Reduce an AST to a single value, from the conditions up to the root. Negations are not applied, so the functions decide how to handle them.
+ * @param ast The AST to fold.
+ * @param folder The functions called with each condition, and with each binary node and the values of its sides.
+ * @returns The value of the root.
+ *
+ * @example
+ * ```ts
+ * const { ast } = new QueryParser().parse("a (b OR c)");
+ * foldAST(ast, {
+ *   condition: (node) => String(node.value),
+ *   binary: (node, left, right) => `(${left} ${node.operator} ${right})`
+ * });
+ * // '(a AND (b OR c))'
+ * ```
+ */
+export function foldAST<T>(
+	ast: ASTNode,
+	folder: {
+		condition: (node: ConditionNode, context: ASTContext) => T;
+		binary: (node: BinaryNode, left: T, right: T, context: ASTContext) => T;
+	}
+): T {
+	const fold = (node: ASTNode, negated: boolean, link: ASTLink | undefined): T => {
+		negated ||= node.negated === true;
+		if (node.type === "condition") return folder.condition(node, toContext(negated, link));
+		const left = fold(node.left, negated, childLink(node, "left", link));
+		const right = fold(node.right, negated, childLink(node, "right", link));
+		return folder.binary(node, left, right, toContext(negated, link));
+	};
+	return fold(ast, false, undefined);
+}
+
+/**
+ * Replace the conditions of an AST. The AST is not modified. Binary nodes are copied when a condition below them is replaced.
+ * @param ast The AST to map.
+ * @param map The function called with each condition and its context, returning the node to put in its place. Return the condition to keep it.
+ * @returns The new AST.
+ *
+ * @example
+ * ```ts
+ * const { ast } = new QueryParser().parse("author:TOLKIEN title:hobbit");
+ * mapAST(ast, (node) => (node.key === "author" ? { ...node, value: String(node.value).toLowerCase() } : node));
+ * ```
+ */
+export function mapAST(ast: ASTNode | null, map: (node: ConditionNode, context: ASTContext) => ASTNode): ASTNode | null {
+	if (!ast) return null;
+	return foldAST<ASTNode>(ast, {
+		condition: map,
+		binary: (node, left, right) => (left === node.left && right === node.right ? node : { ...node, left, right })
+	});
+}
+
+/**
+ * Remove the conditions of an AST that do not pass a test. The AST is not modified.
+ * A binary node with one side removed is replaced by the other side, which takes the negation of the binary node, so `-(a b)` without `b` is `-a`.
+ * Two negations of the same node cancel out, so `-(a -b)` without `a` is `b`, although the predicate is called with the context of `b` in the original AST, which is negated.
+ * @param ast The AST to filter.
+ * @param predicate The function called with each condition and its context. Return `false` to remove the condition.
+ * @returns The new AST, or `null` if every condition was removed.
+ *
+ * @example
+ * ```ts
+ * const { ast } = new QueryParser().parse("title:hobbit -internal:true");
+ * filterAST(ast, (node) => node.key !== "internal");
+ * // { type: 'condition', token: 'keyword', key: 'title', value: 'hobbit', ... }
+ * ```
+ */
+export function filterAST(ast: ASTNode | null, predicate: (node: ConditionNode, context: ASTContext) => boolean): ASTNode | null {
+	if (!ast) return null;
+	return foldAST<ASTNode | null>(ast, {
+		condition: (node, context) => (predicate(node, context) ? node : null),
+		binary: (node, left, right) => {
+			if (left && right) return left === node.left && right === node.right ? node : { ...node, left, right };
+			const remaining = left ?? right;
+			if (!remaining || !node.negated) return remaining;
+			// A negation of the remaining side cancels out the negation it takes
+			if (!remaining.negated) return { ...remaining, negated: true };
+			const { negated: _, ...rest } = remaining;
+			return rest as ASTNode;
+		}
+	});
+}
@@ -1,11 +1,79 @@
 import { sorter } from "@sillvva/utils";
-import { ASTCondition, QueryParser, type ASTNode } from "./index";
+import { ASTCondition, foldAST, QueryParser, type ASTNode, type ConditionNode, type KeySchema, type QueryParserOptions } from "./index";
 
 interface SortCondition extends ASTCondition {
 	key: "asc" | "desc";
 	value: string;
 }
 
+// A key of the objects, or a path to a nested field such as `author.name`
+type KeyPath<T> = (keyof T & string) | `${keyof T & string}.${string}`;
+
+type JSONSearchParserOptions<T extends Record<any, any>> = Omit<QueryParserOptions, "validKeys" | "defaultKey" | "schema"> & {
+	/**
+	 * An optional list of valid keys to allow in the search query. If specified, only these keys will be recognized.
+	 * Paths such as `author.name` match nested fields.
+	 */
+	validKeys?: readonly KeyPath<T>[];
+	/**
+	 * An optional default key to use if no key is specified in the search query.
+	 */
+	defaultKey?: KeyPath<T>;
+	/**
+	 * An optional schema declaring the type of each key. Keys in the schema are valid keys in addition to `validKeys`.
+	 */
+	schema?: KeySchema<KeyPath<T>>;
+	/**
+	 * An optional function deciding whether a value is missing for existence conditions such as `has:key` and `key:*`.
+	 * Defaults to treating `undefined`, `null`, and empty strings as missing.
+	 */
+	isMissing?: (value: unknown) => boolean;
+};
+
+const isMissingValue = (value: unknown) => value === undefined || value === null || value === "";
+
+/**
+ * Get the value of a key in an object. A key path such as `author.name` or `tags.0` is followed through nested objects and arrays.
+ */
+function getValue(item: Record<any, any>, key: string): any {
+	// Only own properties are read, so that inherited properties such as `toString` are not matched
+	if (Object.hasOwn(item, key)) return item[key];
+	return key
+		.split(".")
+		.reduce<any>(
+			(value, segment) => (value !== null && typeof value === "object" && Object.hasOwn(value, segment) ? value[segment] : undefined),
+			item
+		);
+}
+
+/**
+ * The Damerau-Levenshtein distance between two strings, counting insertions, deletions, substitutions, and transpositions of adjacent characters.
+ * Stops early and returns a value greater than `max` once the distance is known to exceed it.
+ */
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+
+	let previous: number[] = [];
+	let current = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const beforePrevious = previous;
+		previous = current;
+		current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let distance = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				distance = Math.min(distance, (beforePrevious[j - 2] ?? 0) + 1);
+			}
+			current[j] = distance;
+			rowMin = Math.min(rowMin, distance);
+		}
+		if (rowMin > max) return max + 1;
+	}
+	return current[b.length] ?? 0;
+}
+
 /**
  A parser for filtering arrays of JSON data using advanced search queries.
  * @typeParam T - The type of the JSON objects in the array.
@@ -38,18 +106,21 @@ interface SortCondition extends ASTCondition {
  */
 export class JSONSearchParser<T extends Record<any, any>> extends QueryParser {
 	private data: T[];
+	private isMissing: (value: unknown) => boolean;
 	/**
 	 * Create a new JSONSearchParser.
 	 * @param data The array of JSON objects to filter.
 	 * @param options Configuration options for the parser.
 	 */
-	constructor(data: T[], options?: { validKeys?: readonly (keyof T & string)[]; defaultKey?: keyof T & string }) {
-		if (options?.validKeys) {
-			if (!options.validKeys.includes("asc")) options.validKeys = [...options.validKeys, "asc"] as const;
-			if (!options.validKeys.includes("desc")) options.validKeys = [...options.validKeys, "desc"] as const;
+	constructor(data: T[], options?: JSONSearchParserOptions<T>) {
+		if (options?.validKeys || options?.schema) {
+			const validKeys = options.validKeys ?? [];
+			if (!validKeys.includes("asc")) options.validKeys = [...(options.validKeys ?? []), "asc"] as const;
+			if (!validKeys.includes("desc")) options.validKeys = [...(options.validKeys ?? []), "desc"] as const;
 		}
 		super(options);
 		this.data = data;
+		this.isMissing = options?.isMissing ?? isMissingValue;
 	}
 
 	private compareValues(a: number | Date, b: number | Date, operator: string): boolean {
@@ -57,6 +128,9 @@ export class JSONSearchParser<T extends Record<any, any>> extends QueryParser {
 			case "=":
 				if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
 				return a === b;
+			case "!=":
+				if (a instanceof Date && b instanceof Date) return a.getTime() !== b.getTime();
+				return a !== b;
 			case ">":
 				return a > b;
 			case "<":
@@ -70,38 +144,89 @@ export class JSONSearchParser<T extends Record<any, any>> extends QueryParser {
 		}
 	}
 
+	/**
+	 * Suggest the values of a key in the data, in addition to the values from the options and the schema.
+	 * Strings, numbers, and booleans are suggested, including those in arrays.
+	 */
+	protected suggestValues(key: string, prefix: string): readonly string[] {
+		const values = this.data
+			.map((item) => getValue(item, key))
+			.flatMap((value) => (Array.isArray(value) ? value : [value]))
+			.filter((value) => typeof value === "string" || typeof value === "number" || typeof value === "boolean")
+			.map(String);
+		return [...super.suggestValues(key, prefix), ...values];
+	}
+
 	private matchesAST(ast: ASTNode, item: T): boolean {
-		if (ast.type === "binary") {
-			const left = this.matchesAST(ast.left, item);
-			const right = this.matchesAST(ast.right, item);
-			const result = ast.operator === "AND" ? left && right : left || right;
-			return ast.negated ? !result : result;
-		} else if (ast.type === "condition") {
-			if (ast.key === "asc" || ast.key === "desc") return true;
-			let value: unknown = ast.key ? item[ast.key] : undefined;
-			if (typeof value !== "string") value = String(value ?? "");
-			if (ast.key && this.options?.validKeys?.length && !this.options.validKeys.includes(ast.key)) return false;
-			let match = false;
-			if (ast.token === "regex" || ast.token === "keyword_regex") {
-				try {
-					match = new RegExp(String(ast.value)).test(String(value));
-				} catch {
-					match = false;
+		return foldAST(ast, {
+			binary: (node, left, right) => {
+				const result = node.operator === "AND" || node.operator === "&" ? left && right : left || right;
+				return node.negated ? !result : result;
+			},
+			condition: (node) => this.matchesCondition(node, item)
+		});
+	}
+
+	private matchesCondition(ast: ConditionNode, item: T): boolean {
+		if (ast.key === "asc" || ast.key === "desc") return true;
+		if (ast.key && this.options?.validKeys?.length && !this.options.validKeys.includes(ast.key) && !this.options.schema?.[ast.key]) return false;
+		if (ast.token === "keyword_exists") {
+			const exists = !!ast.key && !this.isMissing(getValue(item, ast.key));
+			return ast.negated ? !exists : exists;
+		}
+		if (ast.token === "keyword_boolean") {
+			// Booleans only match boolean values, so the string "false" does not match `key:false`
+			const match = !!ast.key && getValue(item, ast.key) === ast.value;
+			return ast.negated ? !match : match;
+		}
+		const field: unknown = ast.key ? getValue(item, ast.key) : undefined;
+		let value: unknown = field;
+		if (typeof value !== "string") value = String(value ?? "");
+		const keyType = ast.key ? this.options?.schema?.[ast.key]?.type : undefined;
+		let match = false;
+		if (ast.token === "regex" || ast.token === "keyword_regex") {
+			// Invalid patterns and flags are rejected by the parser. The global and sticky flags are removed because they make test() stateful.
+			match = new RegExp(String(ast.value), ast.flags?.replace(/[gy]/g, "")).test(String(value));
+		} else if (ast.token === "wildcard" || ast.token === "keyword_wildcard") {
+			// The segments are matched literally and in order, and the pattern must match the whole value
+			const pattern = (ast.segments ?? []).map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+			match = new RegExp(`^${pattern}$`, "is").test(String(value));
+		} else if (ast.token === "keyword_set" && Array.isArray(ast.value)) {
+			// A set matches if the value, or any element of an array, equals any of its values. Missing values match no element, so `count:0,1` does not match `null`.
+			// Numbers only match numbers and numeric strings.
+			const values: (string | number)[] = ast.value;
+			const candidates = (Array.isArray(field) ? field : [field]).filter((candidate) => !this.isMissing(candidate));
+			const isNumber = (candidate: unknown) =>
+				typeof candidate === "number" || (typeof candidate === "string" && /^-?\d+(?:\.\d+)?$/.test(candidate.trim()));
+			match = values.some((element) =>
+				candidates.some((candidate) =>
+					typeof element === "number"
+						? isNumber(candidate) && Number(candidate) === element
+						: String(candidate).toLowerCase() === element.toLowerCase()
+				)
+			);
+		} else if (ast.token === "fuzzy" || ast.token === "keyword_fuzzy") {
+			// A fuzzy term matches if any word in the value is within the edit distance
+			const term = String(ast.value).toLowerCase();
+			const distance = ast.distance ?? 0;
+			match = String(value)
+				.toLowerCase()
+				.split(/[^\p{L}\p{M}\p{N}\p{Pc}]+/u)
+				.some((word) => word && editDistance(word, term, distance) <= distance);
+		} else {
+			if (ast.token === "keyword_numeric" || ast.token === "keyword_date") {
+				if (ast.token === "keyword_numeric" && typeof ast.value === "number") {
+					match = this.compareValues(Number(value), Number(ast.value), ast.operator ?? "=");
+				} else if (ast.token === "keyword_date" && ast.value instanceof Date && typeof value === "string") {
+					match = this.compareValues(new Date(value), ast.value, ast.operator ?? "=");
 				}
+			} else if (keyType === "enum" || keyType === "boolean") {
+				match = String(value).toLowerCase() === String(ast.value).toLowerCase();
 			} else {
-				if (ast.token === "keyword_numeric" || ast.token === "keyword_date") {
-					if (ast.token === "keyword_numeric" && typeof ast.value === "number") {
-						match = this.compareValues(Number(value), Number(ast.value), ast.operator ?? "=");
-					} else if (ast.token === "keyword_date" && ast.value instanceof Date && typeof value === "string") {
-						match = this.compareValues(new Date(value), ast.value, ast.operator ?? "=");
-					}
-				} else {
-					match = String(value).toLowerCase().includes(String(ast.value).toLowerCase());
-				}
+				match = String(value).toLowerCase().includes(String(ast.value).toLowerCase());
 			}
-			return ast.negated ? !match : match;
 		}
-		return false;
+		return ast.negated ? !match : match;
 	}
 
 	/**
@@ -120,8 +245,8 @@ export class JSONSearchParser<T extends Record<any, any>> extends QueryParser {
 			.filter((item) => ast && this.matchesAST(ast, item))
 			.toSorted((a, b) => {
 				for (const cond of sortConditions) {
-					const av = a[cond.value];
-					const bv = b[cond.value];
+					const av = getValue(a, cond.value);
+					const bv = getValue(b, cond.value);
 					const result = cond.key === "asc" ? sorter(av, bv) : sorter(bv, av);
 					if (result !== 0) return result;
 				}
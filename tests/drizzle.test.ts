@@ -0,0 +1,154 @@
+import { DrizzleSearchParser } from "../src/drizzle";
+
+describe("DrizzleSearchParser", () => {
+	let parser: DrizzleSearchParser<any, any>;
+
+	beforeEach(() => {
+		parser = new DrizzleSearchParser<any, any>({
+			validKeys: ["price", "created"],
+			filterFn: (cond) => {
+				switch (cond.key) {
+					case "price": {
+						const op = parser.parseNumeric(cond);
+						return op !== undefined ? { price: op } : undefined;
+					}
+					case "created": {
+						const op = parser.parseDate(cond);
+						return op && { created: op };
+					}
+					default:
+						return;
+				}
+			}
+		});
+	});
+
+	describe("Logical operators", () => {
+		it("should map & and | to AND and OR without modifying the AST", () => {
+			const result = parser.parse("price>10 & (price<5 | created:2024-01-01)");
+
+			expect(result.where).toEqual({
+				AND: [
+					{ price: { gt: 10 } },
+					{
+						OR: [
+							{ price: { lt: 5 } },
+							{ AND: [{ created: { gte: new Date("2024-01-01T00:00:00.000Z") } }, { created: { lte: new Date("2024-01-01T23:59:59.999Z") } }] }
+						]
+					}
+				]
+			});
+			expect(result.ast).toMatchObject({ operator: "&", right: { operator: "|" } });
+		});
+	});
+
+	describe("Ranges", () => {
+		it("should filter numeric and date ranges with both bounds", () => {
+			expect(parser.parse("price:10..20").where).toEqual({ AND: [{ price: { gte: 10 } }, { price: { lte: 20 } }] });
+			expect(parser.parse("created:2024-01").where).toEqual({
+				AND: [{ created: { gte: new Date("2024-01-01T00:00:00.000Z") } }, { created: { lte: new Date("2024-01-31T23:59:59.999Z") } }]
+			});
+		});
+
+		it("should negate both bounds of numeric and date ranges", () => {
+			expect(parser.parse("-price:10..<20").where).toEqual({ NOT: { AND: [{ price: { gte: 10 } }, { price: { lt: 20 } }] } });
+			expect(parser.parse("NOT created:2024-01..<2024-03").where).toEqual({
+				NOT: { AND: [{ created: { gte: new Date("2024-01-01T00:00:00.000Z") } }, { created: { lt: new Date("2024-03-01T00:00:00.000Z") } }] }
+			});
+		});
+
+		it("should keep the bounds of ranges together with OR", () => {
+			expect(parser.parse("price:10..20 OR -created:2024").where).toEqual({
+				OR: [
+					{ AND: [{ price: { gte: 10 } }, { price: { lte: 20 } }] },
+					{
+						NOT: {
+							AND: [{ created: { gte: new Date("2024-01-01T00:00:00.000Z") } }, { created: { lte: new Date("2024-12-31T23:59:59.999Z") } }]
+						}
+					}
+				]
+			});
+		});
+
+		it("should filter open-ended ranges with a single bound", () => {
+			expect(parser.parse("-price:10..").where).toEqual({ NOT: { price: { gte: 10 } } });
+			expect(parser.parse("created:..<2024-03").where).toEqual({ created: { lt: new Date("2024-03-01T00:00:00.000Z") } });
+		});
+	});
+
+	describe("Filter helpers", () => {
+		it("should build like patterns from wildcards, escaping % and _", () => {
+			const parser: DrizzleSearchParser<any, any> = new DrizzleSearchParser<any, any>({
+				filterFn: (cond) => parser.nestFilter(cond, parser.parseWildcard(cond, { caseSensitive: cond.key === "code" }))
+			});
+
+			expect(parser.parse("name:tol*ien -name:*kien code:snake_*").where).toEqual({
+				AND: [{ name: { ilike: "tol%ien" } }, { NOT: { name: { ilike: "%kien" } } }, { code: { like: "snake\\_%" } }]
+			});
+			expect(parser.parseWildcard(parser.parse("name:tolkien").astConditions[0]!)).toBeUndefined();
+		});
+
+		it("should build in filters from sets", () => {
+			const parser: DrizzleSearchParser<any, any> = new DrizzleSearchParser<any, any>({
+				filterFn: (cond) => parser.nestFilter(cond, parser.parseSet(cond))
+			});
+
+			expect(parser.parse('status:(open|"in progress") -price:10,20').where).toEqual({
+				AND: [{ status: { in: ["open", "in progress"] } }, { NOT: { price: { in: [10, 20] } } }]
+			});
+			expect(parser.parseSet(parser.parse("status:open").astConditions[0]!)).toBeUndefined();
+		});
+
+		it("should build not null filters from existence conditions", () => {
+			const parser: DrizzleSearchParser<any, any> = new DrizzleSearchParser<any, any>({
+				filterFn: (cond) => parser.nestFilter(cond, parser.parseExists(cond))
+			});
+
+			expect(parser.parse("has:assignee -due:* author.name:*").where).toEqual({
+				AND: [{ assignee: { isNotNull: true } }, { NOT: { due: { isNotNull: true } } }, { author: { name: { isNotNull: true } } }]
+			});
+			expect(parser.parseExists(parser.parse("due:2024").astConditions[0]!)).toBeUndefined();
+		});
+
+		it("should compare booleans for equality", () => {
+			const parser: DrizzleSearchParser<any, any> = new DrizzleSearchParser<any, any>({
+				schema: { archived: { type: "boolean" }, starred: { type: "boolean" } },
+				filterFn: (cond) => parser.nestFilter(cond, parser.parseBoolean(cond))
+			});
+
+			expect(parser.parse("archived:no is:starred").where).toEqual({ AND: [{ archived: false }, { starred: true }] });
+			expect(parser.parse("-is:archived").where).toEqual({ NOT: { archived: true } });
+			expect(parser.parseBoolean(parser.parse("archived:*").astConditions[0]!)).toBeUndefined();
+		});
+
+		it("should map != and <> to ne", () => {
+			expect(parser.parse("price!=10").where).toEqual({ price: { ne: 10 } });
+			expect(parser.parse("price<>10 created!=2024-01-15T10:00Z").where).toEqual({
+				AND: [{ price: { ne: 10 } }, { created: { ne: new Date("2024-01-15T10:00:00.000Z") } }]
+			});
+		});
+	});
+
+	describe("Key paths", () => {
+		it("should nest filters under the relations of a key path", () => {
+			const parser: DrizzleSearchParser<any, any> = new DrizzleSearchParser<any, any>({
+				validKeys: ["title", "author.name", "author.publisher.books"],
+				filterFn: (cond) => {
+					if (cond.key === "author.publisher.books") return parser.nestFilter(cond, parser.parseNumeric(cond));
+					return parser.nestFilter(cond, { ilike: `%${cond.value}%` });
+				}
+			});
+
+			expect(parser.parse("title:hobbit author[name]:tolkien author.publisher.books>10").where).toEqual({
+				AND: [{ title: { ilike: "%hobbit%" } }, { author: { name: { ilike: "%tolkien%" } } }, { author: { publisher: { books: { gt: 10 } } } }]
+			});
+		});
+
+		it("should not nest a missing filter", () => {
+			const parser = new DrizzleSearchParser<any, any>({ filterFn: () => undefined });
+			const [cond] = parser.parse("author.name:tolkien").astConditions;
+
+			expect(cond && parser.nestFilter(cond, undefined)).toBeUndefined();
+		});
+	});
+});
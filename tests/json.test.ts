@@ -0,0 +1,279 @@
+import { JSONSearchParser } from "../src/json";
+
+interface Book {
+	title: string;
+	author: { name: string; country: string };
+	genre: string;
+	tags: string[];
+	price: number;
+	published: string;
+	series: string | null;
+	featured?: boolean | string;
+}
+
+const books: Book[] = [
+	{
+		title: "The Hobbit",
+		author: { name: "J.R.R. Tolkien", country: "UK" },
+		genre: "fantasy",
+		tags: ["classic", "adventure"],
+		price: 12.5,
+		published: "1937-09-21",
+		series: null,
+		featured: true
+	},
+	{
+		title: "The Fellowship of the Ring",
+		author: { name: "J.R.R. Tolkien", country: "UK" },
+		genre: "fantasy",
+		tags: ["classic", "epic"],
+		price: 18,
+		published: "1954-07-29",
+		series: "The Lord of the Rings",
+		featured: false
+	},
+	{
+		title: "Dune",
+		author: { name: "Frank Herbert", country: "US" },
+		genre: "science fiction",
+		tags: ["epic"],
+		price: 10,
+		published: "1965-08-01",
+		series: "Dune",
+		featured: "false"
+	},
+	{
+		title: "Dune Messiah",
+		author: { name: "Frank Herbert", country: "US" },
+		genre: "science fiction",
+		tags: [],
+		price: 9.99,
+		published: "1969-10-15",
+		series: "Dune"
+	}
+];
+
+const titles = (items: Book[]) => items.map((item) => item.title);
+
+describe("JSONSearchParser", () => {
+	let parser: JSONSearchParser<Book>;
+
+	beforeEach(() => {
+		parser = new JSONSearchParser(books, { defaultKey: "title" });
+	});
+
+	describe("Logical operators", () => {
+		it("should match both sides of & and AND", () => {
+			expect(titles(parser.filter("hobbit & dune"))).toEqual([]);
+			expect(titles(parser.filter("dune & messiah"))).toEqual(["Dune Messiah"]);
+			expect(titles(parser.filter("dune AND messiah"))).toEqual(["Dune Messiah"]);
+		});
+
+		it("should match either side of | and OR", () => {
+			expect(titles(parser.filter("hobbit | messiah"))).toEqual(["The Hobbit", "Dune Messiah"]);
+			expect(titles(parser.filter("hobbit OR messiah"))).toEqual(["The Hobbit", "Dune Messiah"]);
+		});
+	});
+
+	describe("Wildcards", () => {
+		it("should match the whole value", () => {
+			expect(titles(parser.filter("title:dune*"))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("title:*ring"))).toEqual(["The Fellowship of the Ring"]);
+			expect(titles(parser.filter("title:hobbit*"))).toEqual([]);
+			expect(titles(parser.filter("title:*hobbit"))).toEqual(["The Hobbit"]);
+		});
+
+		it("should match any text between segments, ignoring case", () => {
+			expect(titles(parser.filter("title:THE*of*ring"))).toEqual(["The Fellowship of the Ring"]);
+			expect(titles(parser.filter("d*e"))).toEqual(["Dune"]);
+			expect(titles(parser.filter("-title:*e*"))).toEqual([]);
+		});
+
+		it("should match regex metacharacters in values literally", () => {
+			// The dots in the name are matched by `*`, while the segments around them must match exactly
+			expect(titles(parser.filter("author.name:j*tolkien"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("author.name:j*r*r*"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("author.name:jr*"))).toEqual([]);
+		});
+	});
+
+	describe("Fuzzy terms", () => {
+		it("should match words within the edit distance", () => {
+			expect(titles(parser.filter("title:hobit~1"))).toEqual(["The Hobbit"]);
+			expect(titles(parser.filter("title:hobit~0"))).toEqual([]);
+			expect(titles(parser.filter("title:hbbt~1"))).toEqual([]);
+			expect(titles(parser.filter("title:hbbt~2"))).toEqual(["The Hobbit"]);
+		});
+
+		it("should count a transposition as one edit", () => {
+			expect(titles(parser.filter("dnue~1"))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("messaih~1"))).toEqual(["Dune Messiah"]);
+		});
+
+		it("should use the default distance and match any word of the value", () => {
+			expect(titles(parser.filter("felowshp~"))).toEqual(["The Fellowship of the Ring"]);
+			expect(titles(parser.filter("author.name:tolkein~ -ring~0"))).toEqual(["The Hobbit"]);
+		});
+	});
+
+	describe("Sets", () => {
+		it("should match values equal to any value of the set", () => {
+			expect(titles(parser.filter("genre:(fantasy|horror)"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter('genre:("Science Fiction"|western)'))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("genre:(fiction|science)"))).toEqual([]);
+		});
+
+		it("should compare numbers in sets as numbers", () => {
+			expect(titles(parser.filter("price:10,18"))).toEqual(["The Fellowship of the Ring", "Dune"]);
+			expect(titles(parser.filter("-price:(10|12.5)"))).toEqual(["The Fellowship of the Ring", "Dune Messiah"]);
+		});
+
+		it("should not match missing values with numbers", () => {
+			const items = [
+				{ id: "zero", count: 0 },
+				{ id: "text", count: "1" },
+				{ id: "null", count: null },
+				{ id: "empty", count: "" },
+				{ id: "missing" }
+			];
+			const parser = new JSONSearchParser<{ id: string; count?: number | string | null }>(items);
+
+			expect(parser.filter("count:0,1").map((item) => item.id)).toEqual(["zero", "text"]);
+			expect(parser.filter("count:(0|1)").map((item) => item.id)).toEqual(["zero", "text"]);
+		});
+
+		it("should match arrays with any element in the set", () => {
+			expect(titles(parser.filter("tags:(adventure|epic)"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune"]);
+			expect(titles(parser.filter("tags:CLASSIC,horror"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("-tags:(classic|epic)"))).toEqual(["Dune Messiah"]);
+		});
+	});
+
+	describe("Existence", () => {
+		it("should match values that are not missing", () => {
+			expect(titles(parser.filter("has:series"))).toEqual(["The Fellowship of the Ring", "Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("featured:*"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune"]);
+			expect(titles(parser.filter("-series:* OR -has:featured"))).toEqual(["The Hobbit", "Dune Messiah"]);
+			expect(titles(parser.filter("has:author.name -has:author.birthday"))).toHaveLength(4);
+		});
+
+		it("should not treat false and zero as missing", () => {
+			const parser = new JSONSearchParser([{ count: 0 }, { count: false }, { count: "" }, {}]);
+
+			expect(parser.filter("has:count")).toEqual([{ count: 0 }, { count: false }]);
+		});
+
+		it("should use a custom isMissing function", () => {
+			const parser = new JSONSearchParser(books, {
+				defaultKey: "title",
+				isMissing: (value) => value === undefined || value === null || (Array.isArray(value) && !value.length)
+			});
+
+			expect(titles(parser.filter("-has:tags"))).toEqual(["Dune Messiah"]);
+			expect(titles(parser.filter("has:tags"))).toHaveLength(3);
+		});
+	});
+
+	describe("Booleans", () => {
+		it("should only match boolean values", () => {
+			const parser = new JSONSearchParser(books, { schema: { featured: { type: "boolean" } } });
+
+			expect(titles(parser.filter("featured:false"))).toEqual(["The Fellowship of the Ring"]);
+			expect(titles(parser.filter("featured:yes"))).toEqual(["The Hobbit"]);
+			expect(titles(parser.filter("-featured:false"))).toEqual(["The Hobbit", "Dune", "Dune Messiah"]);
+		});
+
+		it("should match is: flags for any key", () => {
+			expect(titles(parser.filter("is:featured"))).toEqual(["The Hobbit"]);
+			expect(titles(parser.filter("-is:featured"))).toEqual(["The Fellowship of the Ring", "Dune", "Dune Messiah"]);
+		});
+	});
+
+	describe("Not equal", () => {
+		it("should exclude equal numbers with != and <>", () => {
+			expect(titles(parser.filter("price!=10"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("price<>10"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+		});
+
+		it("should exclude equal dates and date spans", () => {
+			expect(titles(parser.filter("published!=1965-08-01T00:00Z"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("published<>1965-08"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("published!=1954"))).toEqual(["The Hobbit", "Dune", "Dune Messiah"]);
+		});
+
+		it("should negate text with != and NOT", () => {
+			expect(titles(parser.filter("genre!=fantasy"))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("NOT genre:fiction NOT hobbit"))).toEqual(["The Fellowship of the Ring"]);
+		});
+	});
+
+	describe("Ranges", () => {
+		it("should filter numbers within inclusive, exclusive, and open-ended ranges", () => {
+			expect(titles(parser.filter("price:10..15"))).toEqual(["The Hobbit", "Dune"]);
+			expect(titles(parser.filter("price:10..<12.5"))).toEqual(["Dune"]);
+			expect(titles(parser.filter("price:12.5.."))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("price:..10"))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("price:..<10"))).toEqual(["Dune Messiah"]);
+		});
+
+		it("should filter dates within inclusive, exclusive, and open-ended ranges", () => {
+			expect(titles(parser.filter("published:1950..1966"))).toEqual(["The Fellowship of the Ring", "Dune"]);
+			expect(titles(parser.filter("published:1937-09-21..<1954-07-29"))).toEqual(["The Hobbit"]);
+			expect(titles(parser.filter("published:1960.."))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("published:..<1954-07-29"))).toEqual(["The Hobbit"]);
+		});
+
+		it("should filter dates within the span of a year or month", () => {
+			expect(titles(parser.filter("published:1954-07"))).toEqual(["The Fellowship of the Ring"]);
+			expect(titles(parser.filter("published:1969"))).toEqual(["Dune Messiah"]);
+		});
+
+		it("should negate both bounds of a range", () => {
+			expect(titles(parser.filter("-price:10..15"))).toEqual(["The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("-price:..<10"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune"]);
+			expect(titles(parser.filter("NOT published:1950..1966"))).toEqual(["The Hobbit", "Dune Messiah"]);
+			expect(titles(parser.filter("-published:..1950"))).toEqual(["The Fellowship of the Ring", "Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("published!=1969"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune"]);
+		});
+
+		it("should keep the bounds of a range together in groups", () => {
+			expect(titles(parser.filter("-price:10..15 OR genre:fantasy"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("-(price:10..15 -genre:fantasy)"))).toEqual(["The Hobbit", "The Fellowship of the Ring", "Dune Messiah"]);
+			expect(titles(parser.filter("published:1950..1966 -price:..<12"))).toEqual(["The Fellowship of the Ring"]);
+		});
+	});
+
+	describe("Relative dates", () => {
+		it("should match relative words as text for keys that are not dates", () => {
+			const shows = [{ title: "Today Show" }, { title: "Tomorrow Show" }];
+
+			expect(new JSONSearchParser(shows).filter("title:today")).toEqual([{ title: "Today Show" }]);
+		});
+	});
+
+	describe("Sorting", () => {
+		it("should sort by keys and key paths", () => {
+			expect(titles(parser.filter("asc:price"))).toEqual(["Dune Messiah", "Dune", "The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("asc:author.name desc:price"))).toEqual(["Dune", "Dune Messiah", "The Fellowship of the Ring", "The Hobbit"]);
+			expect(titles(parser.filter("genre:fantasy OR messiah desc:author.name asc:title"))).toEqual([
+				"The Fellowship of the Ring",
+				"The Hobbit",
+				"Dune Messiah"
+			]);
+		});
+	});
+
+	describe("Key paths", () => {
+		it("should follow key paths through objects and arrays", () => {
+			expect(titles(parser.filter("author.country:us"))).toEqual(["Dune", "Dune Messiah"]);
+			expect(titles(parser.filter("tags[0]:classic"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+			expect(titles(parser.filter("tags.1:*"))).toEqual(["The Hobbit", "The Fellowship of the Ring"]);
+		});
+
+		it("should not read inherited properties", () => {
+			expect(parser.filter("toString:native")).toEqual([]);
+			expect(parser.filter("has:constructor OR author.constructor:object OR title.length>0")).toEqual([]);
+			expect(parser.filter("-has:toString -has:tags.map")).toHaveLength(4);
+		});
+	});
+});
@@ -1,17 +1,27 @@
-import { QueryParser, type ParseResult } from "../src";
-
-// Test class to expose protected _parse method
-class TestQueryParser extends QueryParser {
-	public parse(query: string): ParseResult {
-		return this._parse(query);
-	}
+import {
+	ASTValidationError,
+	filterAST,
+	foldAST,
+	fromJSON,
+	mapAST,
+	QueryParser,
+	toJSON,
+	validateAST,
+	walkAST,
+	type ASTNode,
+	type BinaryNode
+} from "../src";
+
+// Remove positions so ASTs from different query strings can be compared
+function withoutPositions(ast: ASTNode | null): unknown {
+	return JSON.parse(JSON.stringify(ast, (key, value) => (key === "position" || key === "start" || key === "end" ? undefined : value)));
 }
 
 describe("QueryParser", () => {
-	let parser: TestQueryParser;
+	let parser: QueryParser;
 
 	beforeEach(() => {
-		parser = new TestQueryParser();
+		parser = new QueryParser();
 	});
 
 	describe("Basic Tokenization", () => {
@@ -92,6 +102,535 @@ describe("QueryParser", () => {
 		});
 	});
 
+	describe("Key Paths", () => {
+		it("should parse dotted key paths", () => {
+			const result = parser.parse("author.name:Tolkien meta.rating>4");
+
+			expect(result.tokens).toEqual([
+				{ type: "keyword", key: "author.name", value: "Tolkien", position: 0, start: 0, end: 19 },
+				{ type: "keyword_numeric", key: "meta.rating", operator: ">", value: 4, position: 20, start: 20, end: 33 }
+			]);
+			expect(result.astConditions.map((cond) => cond.path)).toEqual([
+				["author", "name"],
+				["meta", "rating"]
+			]);
+		});
+
+		it("should write bracketed key paths with dots in the canonical key", () => {
+			const result = parser.parse("tags[0]:fantasy");
+
+			expect(result.tokens).toEqual([{ type: "keyword", key: "tags.0", originalKey: "tags[0]", value: "fantasy", position: 0, start: 0, end: 15 }]);
+			expect(result.astConditions[0]).toMatchObject({ key: "tags.0", originalKey: "tags[0]", path: ["tags", "0"] });
+		});
+
+		it("should validate key paths against valid keys and the schema", () => {
+			const parser = new QueryParser({ validKeys: ["author.name"], schema: { "meta.featured": { type: "boolean" } } });
+			const result = parser.parse("author[name]:tolkien author.bio:hobbit is:meta.featured");
+
+			expect(result.metadata.errors).toMatchObject([{ type: "invalid_key", key: "author.bio", position: 21 }]);
+			expect(result.astConditions).toMatchObject([
+				{ key: "author.name", originalKey: "author[name]", path: ["author", "name"], value: "tolkien" },
+				{ key: "meta.featured", path: ["meta", "featured"], value: true, isBoolean: true }
+			]);
+		});
+
+		it("should allow key paths in every kind of term", () => {
+			const result = parser.parse('has:author.name -meta.tags:* author.name:(tolkien|"le guin") meta.rating:1..5 meta.created<2024 author.name:/^t/');
+
+			expect(result.astConditions.map((cond) => cond.key)).toEqual([
+				"author.name",
+				"meta.tags",
+				"author.name",
+				"meta.rating",
+				"meta.rating",
+				"meta.created",
+				"author.name"
+			]);
+			expect(result.metadata.hasErrors).toBe(false);
+		});
+
+		it("should not set a path for keys without one", () => {
+			const result = parser.parse("author:tolkien example.com");
+
+			expect(result.astConditions[0]).not.toHaveProperty("path");
+			expect(result.tokens[1]).toEqual({ type: "word", value: "example.com", position: 15, start: 15, end: 26 });
+		});
+	});
+
+	describe("Existence", () => {
+		it("should parse has:key and key:* as existence conditions", () => {
+			const result = parser.parse("has:assignee due:*");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 12, type: "keyword_exists", key: "assignee", value: "*", position: 0 },
+				{ start: 13, end: 18, type: "keyword_exists", key: "due", value: "*", position: 13 }
+			]);
+		});
+
+		it("should negate existence conditions", () => {
+			const result = parser.parse("-assignee:* OR !has:due");
+
+			expect(result.ast).toEqual({
+				start: 0,
+				end: 23,
+				type: "binary",
+				operator: "OR",
+				left: { start: 0, end: 11, type: "condition", token: "keyword_exists", key: "assignee", value: "*", negated: true, position: 1 },
+				right: { start: 15, end: 23, type: "condition", token: "keyword_exists", key: "due", value: "*", negated: true, position: 16 }
+			});
+			expect(result.astConditions).toMatchObject([
+				{ key: "assignee", isExists: true, isNegated: true },
+				{ key: "due", isExists: true, isNegated: true }
+			]);
+		});
+
+		it("should resolve and validate keys of existence conditions", () => {
+			const parser = new QueryParser({ validKeys: ["assignee"], keyAliases: { a: "assignee" } });
+			const result = parser.parse("has:a priority:*");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 5, type: "keyword_exists", key: "assignee", originalKey: "a", value: "*", position: 0 }]);
+			expect(result.metadata.errors).toEqual([
+				{ start: 6, end: 16, type: "invalid_key", message: "Invalid key: priority", position: 6, key: "priority", value: "priority:*" }
+			]);
+		});
+
+		it("should accept existence conditions for any key in the schema", () => {
+			const parser = new QueryParser({ schema: { due: { type: "date" }, archived: { type: "boolean" } } });
+			const result = parser.parse("due:* -has:archived");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.astConditions).toMatchObject([
+				{ key: "due", isExists: true, isNegated: false },
+				{ key: "archived", isExists: true, isNegated: true }
+			]);
+		});
+
+		it("should not treat a wildcard as an existence condition", () => {
+			expect(parser.parse("title:hob*").tokens[0]).toMatchObject({ type: "keyword_wildcard" });
+			expect(parser.parse("has:x*").metadata.hasErrors).toBe(false);
+			expect(parser.parse("has:x*").tokens[0]).toMatchObject({ type: "keyword_wildcard", key: "has" });
+		});
+	});
+
+	describe("Booleans", () => {
+		const schema = { archived: { type: "boolean" }, starred: { type: "boolean" }, title: { type: "string" } } as const;
+
+		it("should parse values of boolean keys as booleans", () => {
+			const parser = new QueryParser({ schema });
+			const result = parser.parse("archived:true starred:No archived:1 starred:0");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 13, type: "keyword_boolean", key: "archived", value: true, position: 0 },
+				{ start: 14, end: 24, type: "keyword_boolean", key: "starred", value: false, position: 14 },
+				{ start: 25, end: 35, type: "keyword_boolean", key: "archived", value: true, position: 25 },
+				{ start: 36, end: 45, type: "keyword_boolean", key: "starred", value: false, position: 36 }
+			]);
+			expect(result.astConditions).toMatchObject([
+				{ key: "archived", value: true, isBoolean: true },
+				{ key: "starred", value: false, isBoolean: true },
+				{ key: "archived", value: true, isBoolean: true },
+				{ key: "starred", value: false, isBoolean: true }
+			]);
+		});
+
+		it("should reject values that are not booleans", () => {
+			const parser = new QueryParser({ schema });
+			const result = parser.parse("archived:t archived:2 archived>1");
+
+			expect(result.tokens).toHaveLength(0);
+			expect(result.metadata.errors).toMatchObject([
+				{ type: "invalid_value", key: "archived", value: "t" },
+				{ type: "invalid_value", key: "archived", value: "2" },
+				{ type: "type_mismatch", key: "archived", value: "1" }
+			]);
+		});
+
+		it("should parse is:flag and -is:flag", () => {
+			const parser = new QueryParser({ schema });
+			const result = parser.parse("is:starred -is:archived");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 10, type: "keyword_boolean", key: "starred", value: true, position: 0 },
+				{ start: 11, end: 12, type: "negation", position: 11 },
+				{ start: 12, end: 23, type: "keyword_boolean", key: "archived", value: true, position: 12 }
+			]);
+			expect(result.astConditions).toMatchObject([
+				{ key: "starred", value: true, isBoolean: true, isNegated: false },
+				{ key: "archived", value: true, isBoolean: true, isNegated: true }
+			]);
+		});
+
+		it("should validate the key of is:flag", () => {
+			const parser = new QueryParser({ schema, keyAliases: { fav: "starred" } });
+			const result = parser.parse("is:fav is:title is:unknown");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 6, type: "keyword_boolean", key: "starred", originalKey: "fav", value: true, position: 0 }]);
+			expect(result.metadata.errors).toEqual([
+				{ start: 7, end: 15, type: "type_mismatch", message: "Expected a string value for title", position: 7, key: "title", value: "is:title" },
+				{ start: 16, end: 26, type: "invalid_key", message: "Invalid key: unknown", position: 16, key: "unknown", value: "is:unknown" }
+			]);
+		});
+
+		it("should accept is:flag for any key without a schema", () => {
+			const result = parser.parse("is:starred archived:true");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 10, type: "keyword_boolean", key: "starred", value: true, position: 0 },
+				{ start: 11, end: 24, type: "keyword", key: "archived", value: "true", position: 11 }
+			]);
+		});
+	});
+
+	describe("Sets", () => {
+		it("should parse sets in parentheses", () => {
+			const result = parser.parse('status:(open|closed | "in progress")');
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 36, type: "keyword_set", key: "status", value: ["open", "closed", "in progress"], position: 0 }
+			]);
+			expect(result.ast).toEqual({
+				start: 0,
+				end: 36,
+				type: "condition",
+				token: "keyword_set",
+				key: "status",
+				value: ["open", "closed", "in progress"],
+				position: 0
+			});
+		});
+
+		it("should parse comma-separated sets", () => {
+			const result = parser.parse("status:open,closed,blocked");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 26, type: "keyword_set", key: "status", value: ["open", "closed", "blocked"], position: 0 }]);
+		});
+
+		it("should parse sets of numbers as numbers", () => {
+			expect(parser.parse("price:10,20.5,-3").tokens).toEqual([
+				{ start: 0, end: 16, type: "keyword_set", key: "price", value: [10, 20.5, -3], position: 0 }
+			]);
+			expect(parser.parse("code:(10|a1)").tokens).toEqual([
+				{ start: 0, end: 12, type: "keyword_set", key: "code", value: ["10", "a1"], position: 0 }
+			]);
+		});
+
+		it("should mark set conditions and support negation", () => {
+			const result = parser.parse("-status:open,closed author:tolkien");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "status", value: ["open", "closed"], isSet: true, isNegated: true },
+				{ key: "author", value: "tolkien", isSet: false, isNegated: false }
+			]);
+		});
+
+		it("should coerce set values according to the schema", () => {
+			const parser = new QueryParser({
+				schema: { status: { type: "enum", values: ["open", "closed"] }, code: { type: "string" }, age: { type: "number" } }
+			});
+
+			expect(parser.parse("status:Open,CLOSED").tokens).toEqual([
+				{ start: 0, end: 18, type: "keyword_set", key: "status", value: ["open", "closed"], position: 0 }
+			]);
+			expect(parser.parse("code:1,2").tokens).toEqual([{ start: 0, end: 8, type: "keyword_set", key: "code", value: ["1", "2"], position: 0 }]);
+			expect(parser.parse("age:30,40").tokens).toEqual([{ start: 0, end: 9, type: "keyword_set", key: "age", value: [30, 40], position: 0 }]);
+
+			const invalid = parser.parse("status:open,pending age:thirty,40");
+			expect(invalid.tokens).toHaveLength(0);
+			expect(invalid.metadata.errors).toMatchObject([
+				{ type: "invalid_value", key: "status", value: "pending" },
+				{ type: "type_mismatch", key: "age", value: "thirty" }
+			]);
+		});
+
+		it("should report invalid keys for sets", () => {
+			const parser = new QueryParser({ validKeys: ["status"] });
+			const result = parser.parse("priority:(high|low)");
+
+			expect(result.tokens).toHaveLength(0);
+			expect(result.metadata.errors).toEqual([
+				{ start: 0, end: 19, type: "invalid_key", message: "Invalid key: priority", position: 0, key: "priority", value: "(high|low)" }
+			]);
+		});
+	});
+
+	describe("Fuzzy Terms", () => {
+		it("should parse fuzzy terms with the default edit distance", () => {
+			const result = parser.parse("tolkein~ author:tolkein~");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 8, type: "fuzzy", value: "tolkein", distance: 2, position: 0 },
+				{ start: 9, end: 24, type: "keyword_fuzzy", key: "author", value: "tolkein", distance: 2, position: 9 }
+			]);
+		});
+
+		it("should parse fuzzy terms with an edit distance", () => {
+			const result = parser.parse("(author:tolkein~1 OR -lewsi~3)");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 1, type: "open_paren", negated: false, position: 0 },
+				{ start: 1, end: 17, type: "keyword_fuzzy", key: "author", value: "tolkein", distance: 1, position: 1 },
+				{ start: 18, end: 20, type: "operator", value: "OR", position: 18 },
+				{ start: 21, end: 22, type: "negation", position: 21 },
+				{ start: 22, end: 29, type: "fuzzy", value: "lewsi", distance: 3, position: 22 },
+				{ start: 29, end: 30, type: "close_paren", position: 29 }
+			]);
+		});
+
+		it("should mark fuzzy conditions", () => {
+			const result = parser.parse("author:tolkein~1 tolkien");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "author", value: "tolkein", isFuzzy: true, distance: 1 },
+				{ value: "tolkien", isFuzzy: false }
+			]);
+			expect(result.astConditions[1]).not.toHaveProperty("distance");
+		});
+
+		it("should use the default key for fuzzy terms", () => {
+			const parser = new QueryParser({ defaultKey: "author" });
+
+			expect(parser.parse("tolkein~").tokens).toEqual([
+				{ start: 0, end: 8, type: "keyword_fuzzy", key: "author", value: "tolkein", distance: 2, position: 0 }
+			]);
+		});
+
+		it("should only accept fuzzy terms for string keys in the schema", () => {
+			const parser = new QueryParser({ schema: { author: { type: "string" }, status: { type: "enum", values: ["open", "closed"] } } });
+			const result = parser.parse("author:tolkein~ status:opne~");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 15, type: "keyword_fuzzy", key: "author", value: "tolkein", distance: 2, position: 0 }]);
+			expect(result.metadata.errors).toMatchObject([
+				{ type: "type_mismatch", key: "status", value: "opne", message: "Expected an enum value for status" }
+			]);
+		});
+
+		it("should not treat a tilde inside a word as a fuzzy term", () => {
+			const result = parser.parse("hello~world");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 5, type: "word", value: "hello", position: 0 }]);
+		});
+	});
+
+	describe("Wildcards", () => {
+		it("should parse prefix, suffix, and infix wildcards", () => {
+			const result = parser.parse("tolk* *kien t*n");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 5, type: "wildcard", value: "tolk*", segments: ["tolk", ""], position: 0 },
+				{ start: 6, end: 11, type: "wildcard", value: "*kien", segments: ["", "kien"], position: 6 },
+				{ start: 12, end: 15, type: "wildcard", value: "t*n", segments: ["t", "n"], position: 12 }
+			]);
+		});
+
+		it("should parse keyword wildcards", () => {
+			const result = parser.parse("author:tol* -title:*ring*");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 11, type: "keyword_wildcard", key: "author", value: "tol*", segments: ["tol", ""], position: 0 },
+				{ start: 12, end: 13, type: "negation", position: 12 },
+				{ start: 13, end: 25, type: "keyword_wildcard", key: "title", value: "*ring*", segments: ["", "ring", ""], position: 13 }
+			]);
+		});
+
+		it("should mark wildcard conditions", () => {
+			const result = parser.parse("author:tol* tolkien");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "author", value: "tol*", isWildcard: true, segments: ["tol", ""] },
+				{ value: "tolkien", isWildcard: false }
+			]);
+			expect(result.astConditions[1]).not.toHaveProperty("segments");
+		});
+
+		it("should use the default key for wildcards", () => {
+			const parser = new QueryParser({ defaultKey: "title" });
+
+			expect(parser.parse("hob*").tokens).toEqual([
+				{ start: 0, end: 4, type: "keyword_wildcard", key: "title", value: "hob*", segments: ["hob", ""], position: 0 }
+			]);
+		});
+
+		it("should only accept wildcards for string keys in the schema", () => {
+			const parser = new QueryParser({ schema: { title: { type: "string" }, status: { type: "enum", values: ["open", "closed"] } } });
+			const result = parser.parse("title:hob* status:op*");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 10, type: "keyword_wildcard", key: "title", value: "hob*", segments: ["hob", ""], position: 0 }
+			]);
+			expect(result.metadata.errors).toMatchObject([{ type: "type_mismatch", key: "status", value: "op*" }]);
+		});
+
+		it("should report a lone asterisk as a syntax error", () => {
+			const result = parser.parse("*");
+
+			expect(result.tokens).toHaveLength(0);
+			expect(result.metadata.errors).toMatchObject([{ type: "syntax", value: "*" }]);
+		});
+	});
+
+	describe("Escapes and Quotes", () => {
+		it("should parse escaped quotes in phrases", () => {
+			const result = parser.parse('title:"The \\"Best\\" Book" "back\\\\slash"');
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 25, type: "keyword_phrase", key: "title", value: 'The "Best" Book', position: 0 },
+				{ start: 26, end: 39, type: "phrase", value: "back\\slash", position: 26 }
+			]);
+		});
+
+		it("should parse single-quoted phrases", () => {
+			const result = parser.parse("title:'The \\'Best\\' Book' 'say \"hi\"'");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 25, type: "keyword_phrase", key: "title", value: "The 'Best' Book", position: 0 },
+				{ start: 26, end: 36, type: "phrase", value: 'say "hi"', position: 26 }
+			]);
+		});
+
+		it("should parse escaped slashes in regular expressions", () => {
+			const result = parser.parse("path:/src\\/lib/ /\\d+\\/\\d+/");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 15, type: "keyword_regex", key: "path", value: "src/lib", position: 0 },
+				{ start: 16, end: 26, type: "regex", value: "\\d+/\\d+", position: 16 }
+			]);
+		});
+
+		it("should parse regular expression flags", () => {
+			const result = parser.parse("/hobbit/i name:/^bilbo$/gim");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 9, type: "regex", value: "hobbit", flags: "i", position: 0 },
+				{ start: 10, end: 27, type: "keyword_regex", key: "name", value: "^bilbo$", flags: "gim", position: 10 }
+			]);
+			expect(result.ast).toMatchObject({ left: { flags: "i" }, right: { flags: "gim" } });
+			expect(result.astConditions.map((c) => c.flags)).toEqual(["i", "gim"]);
+		});
+
+		it("should report invalid regular expression flags", () => {
+			const result = parser.parse("a -/hobbit/x");
+
+			expect(result.tokens).toEqual([{ start: 0, end: 1, type: "word", value: "a", position: 0 }]);
+			expect(result.metadata.errors).toEqual([
+				{ start: 3, end: 12, type: "invalid_regex", message: expect.any(String), position: 3, value: "/hobbit/x" }
+			]);
+		});
+
+		it("should report invalid regular expression patterns", () => {
+			const result = parser.parse("name:/(unclosed/");
+
+			expect(result.tokens).toHaveLength(0);
+			expect(result.metadata.errors).toEqual([
+				{ start: 0, end: 16, type: "invalid_regex", message: expect.any(String), position: 0, value: "name:/(unclosed/" }
+			]);
+		});
+
+		it("should report unterminated phrases", () => {
+			const result = parser.parse('a -title:"The Hobbit b');
+
+			expect(result.tokens).toEqual([{ start: 0, end: 1, type: "word", value: "a", position: 0 }]);
+			expect(result.metadata.errors).toEqual([
+				{ start: 3, end: 22, type: "syntax", message: "Unterminated phrase", position: 3, value: 'title:"The Hobbit b' }
+			]);
+		});
+
+		it("should report unterminated regular expressions", () => {
+			const result = parser.parse("/src\\/lib");
+
+			expect(result.tokens).toHaveLength(0);
+			expect(result.metadata.errors).toEqual([
+				{ start: 0, end: 9, type: "syntax", message: "Unterminated regular expression", position: 0, value: "/src\\/lib" }
+			]);
+		});
+
+		it("should not treat apostrophes as single quotes", () => {
+			const result = parser.parse("don't 'stop'");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 5, type: "word", value: "don't", position: 0 },
+				{ start: 6, end: 12, type: "phrase", value: "stop", position: 6 }
+			]);
+			expect(result.metadata.errors).toEqual([]);
+		});
+	});
+
+	describe("International Input", () => {
+		it("should parse words in any script", () => {
+			const result = parser.parse("name:José naïve Ελληνικά 日本語 author:Достоевский");
+
+			expect(result.tokens).toEqual([
+				{ type: "keyword", key: "name", value: "José", position: 0, start: 0, end: 9 },
+				{ type: "word", value: "naïve", position: 10, start: 10, end: 15 },
+				{ type: "word", value: "Ελληνικά", position: 16, start: 16, end: 24 },
+				{ type: "word", value: "日本語", position: 25, start: 25, end: 28 },
+				{ type: "keyword", key: "author", value: "Достоевский", position: 29, start: 29, end: 47 }
+			]);
+			expect(result.metadata.hasErrors).toBe(false);
+		});
+
+		it("should keep punctuation inside words", () => {
+			const result = parser.parse("tag:sci-fi c++ lang:C# o'brien v2.0 O’Brien's");
+
+			expect(result.tokens.map((token) => ("value" in token ? token.value : undefined))).toEqual([
+				"sci-fi",
+				"c++",
+				"C#",
+				"o'brien",
+				"v2.0",
+				"O’Brien's"
+			]);
+			expect(result.metadata.hasErrors).toBe(false);
+		});
+
+		it("should still parse a leading dash as a negation", () => {
+			const result = parser.parse("-sci-fi -tag:c++");
+
+			expect(result.tokens).toEqual([
+				{ type: "negation", position: 0, start: 0, end: 1 },
+				{ type: "word", value: "sci-fi", position: 1, start: 1, end: 7 },
+				{ type: "negation", position: 8, start: 8, end: 9 },
+				{ type: "keyword", key: "tag", value: "c++", position: 9, start: 9, end: 16 }
+			]);
+		});
+
+		it("should still parse operators between words", () => {
+			const result = parser.parse("café&thé straße OR münchen");
+
+			expect(result.tokens.map((token) => token.type)).toEqual(["word", "operator", "word", "word", "operator", "word"]);
+			expect(result.astConditions.map((cond) => cond.value)).toEqual(["café", "thé", "straße", "münchen"]);
+		});
+
+		it("should allow international words in sets, fuzzy terms, and wildcards", () => {
+			const result = parser.parse("city:(zürich|são-paulo) José~1 Zoë*");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "city", value: ["zürich", "são-paulo"], isSet: true },
+				{ value: "José", isFuzzy: true, distance: 1 },
+				{ value: "Zoë*", isWildcard: true, segments: ["Zoë", ""] }
+			]);
+		});
+
+		it("should not treat an apostrophe after a letter in any script as a single quote", () => {
+			const result = parser.parse("José's 'café'");
+
+			expect(result.tokens).toEqual([
+				{ type: "word", value: "José's", position: 0, start: 0, end: 6 },
+				{ type: "phrase", value: "café", position: 7, start: 7, end: 13 }
+			]);
+		});
+
+		it("should stringify international words without quotes", () => {
+			const result = parser.parse("name:José   sci-fi c++");
+
+			expect(parser.stringify(result.ast!)).toBe("name:José sci-fi c++");
+		});
+	});
+
 	describe("Logical Operators", () => {
 		it("should parse AND operator", () => {
 			const result = parser.parse("hello AND world");
@@ -142,6 +681,97 @@ describe("QueryParser", () => {
 		});
 	});
 
+	describe("Operator Precedence", () => {
+		it("should bind implicit AND tighter than OR", () => {
+			const result = parser.parse("a OR b c");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "OR",
+				left: { type: "condition", value: "a" },
+				right: {
+					type: "binary",
+					operator: "AND",
+					left: { type: "condition", value: "b" },
+					right: { type: "condition", value: "c" }
+				}
+			});
+		});
+
+		it("should bind explicit AND tighter than OR", () => {
+			const result = parser.parse("a AND b OR c AND d");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "OR",
+				left: { type: "binary", operator: "AND", left: { value: "a" }, right: { value: "b" } },
+				right: { type: "binary", operator: "AND", left: { value: "c" }, right: { value: "d" } }
+			});
+		});
+
+		it("should apply precedence to symbolic operators", () => {
+			const result = parser.parse("a | b & c");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "|",
+				left: { value: "a" },
+				right: { type: "binary", operator: "&", left: { value: "b" }, right: { value: "c" } }
+			});
+		});
+
+		it("should fold operators of the same precedence from left to right", () => {
+			const result = parser.parse("a OR b OR c");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "OR",
+				left: { type: "binary", operator: "OR", left: { value: "a" }, right: { value: "b" } },
+				right: { value: "c" }
+			});
+		});
+
+		it("should treat groups and negated groups as single terms", () => {
+			const result = parser.parse("a -(b OR c) OR d");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "OR",
+				left: {
+					type: "binary",
+					operator: "AND",
+					left: { value: "a" },
+					right: { type: "binary", operator: "OR", negated: true, left: { value: "b" }, right: { value: "c" } }
+				},
+				right: { value: "d" }
+			});
+		});
+
+		it("should bind negation to the next term only", () => {
+			const result = parser.parse("a OR -b c");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "OR",
+				left: { value: "a" },
+				right: { type: "binary", operator: "AND", left: { value: "b", negated: true }, right: { value: "c" } }
+			});
+			expect(result.ast?.negated).toBeUndefined();
+		});
+
+		it("should fold strictly from left to right when operatorPrecedence is false", () => {
+			const parser = new QueryParser({ operatorPrecedence: false });
+			const result = parser.parse("a OR b c");
+
+			expect(result.ast).toMatchObject({
+				type: "binary",
+				operator: "AND",
+				left: { type: "binary", operator: "OR", left: { value: "a" }, right: { value: "b" } },
+				right: { value: "c" }
+			});
+		});
+	});
+
 	describe("Negation", () => {
 		it("should parse negation with dash", () => {
 			const result = parser.parse("-hello");
@@ -157,30 +787,105 @@ describe("QueryParser", () => {
 			expect(result.ast?.negated).toBe(true);
 		});
 
-		it("should parse negation with exclamation", () => {
-			const result = parser.parse("!hello");
+		it("should parse negation with exclamation", () => {
+			const result = parser.parse("!hello");
+
+			expect(result.tokens).toHaveLength(2);
+			expect(result.tokens[0]).toMatchObject({
+				type: "negation"
+			});
+			expect(result.tokens[1]).toMatchObject({
+				type: "word",
+				value: "hello"
+			});
+			expect(result.ast?.negated).toBe(true);
+		});
+
+		it("should position negations at the negation character", () => {
+			const result = parser.parse('author:Tolkien -title:"The Hobbit" -(a)');
+
+			expect(result.tokens[1]).toEqual({ start: 15, end: 16, type: "negation", position: 15 });
+			expect(result.tokens[3]).toEqual({ start: 35, end: 37, type: "open_paren", negated: true, position: 35 });
+		});
+
+		it("should parse negated keywords", () => {
+			const result = parser.parse("-author:Tolkien");
+
+			expect(result.astConditions[0]?.isNegated).toBe(true);
+		});
+
+		it("should parse negated phrases", () => {
+			const result = parser.parse('-"hello world"');
+
+			expect(result.astConditions[0]?.isNegated).toBe(true);
+		});
+
+		it("should negate keywords written with != or <>", () => {
+			const result = parser.parse('status!=done title<>"The Hobbit" -author!=Tolkien');
+
+			expect(result.tokens).toEqual([
+				{ start: 6, end: 8, type: "negation", position: 0 },
+				{ start: 0, end: 12, type: "keyword", key: "status", value: "done", position: 0 },
+				{ start: 18, end: 20, type: "negation", position: 13 },
+				{ start: 13, end: 32, type: "keyword_phrase", key: "title", value: "The Hobbit", position: 13 },
+				{ start: 34, end: 49, type: "keyword", key: "author", value: "Tolkien", position: 34 }
+			]);
+			expect(result.astConditions.map((cond) => cond.isNegated)).toEqual([true, true, false]);
+		});
+
+		it("should negate text values of schema keys written with !=", () => {
+			const parser = new QueryParser({ schema: { code: { type: "string" }, archived: { type: "boolean" } } });
+			const result = parser.parse("code!=42 archived<>1");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.astConditions).toMatchObject([
+				{ key: "code", value: "42", isNegated: true, isNumeric: false },
+				{ key: "archived", value: true, isNegated: true, isBoolean: true }
+			]);
+		});
+
+		it("should parse NOT as a negation", () => {
+			const result = parser.parse("NOT archived not (a OR b) -NOT c");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 3, type: "negation", position: 0 },
+				{ start: 4, end: 12, type: "word", value: "archived", position: 4 },
+				{ start: 13, end: 16, type: "negation", position: 13 },
+				{ start: 17, end: 18, type: "open_paren", negated: false, position: 17 },
+				{ start: 18, end: 19, type: "word", value: "a", position: 18 },
+				{ start: 20, end: 22, type: "operator", value: "OR", position: 20 },
+				{ start: 23, end: 24, type: "word", value: "b", position: 23 },
+				{ start: 24, end: 25, type: "close_paren", position: 24 },
+				{ start: 31, end: 32, type: "word", value: "c", position: 31 }
+			]);
+		});
 
-			expect(result.tokens).toHaveLength(2);
-			expect(result.tokens[0]).toMatchObject({
-				type: "negation"
-			});
-			expect(result.tokens[1]).toMatchObject({
-				type: "word",
-				value: "hello"
-			});
-			expect(result.ast?.negated).toBe(true);
+		it("should cancel every pair of negations", () => {
+			for (const query of ["NOT -a", "-NOT a", "NOT NOT a", "! -a"]) {
+				expect(parser.parse(query).tokens).toEqual([
+					{ start: query.length - 1, end: query.length, type: "word", value: "a", position: query.length - 1 }
+				]);
+			}
+			expect(parser.parse("NOT -(a b)").ast).not.toHaveProperty("negated");
+			expect(parser.parse("NOT NOT -a").astConditions).toMatchObject([{ value: "a", isNegated: true }]);
 		});
 
-		it("should parse negated keywords", () => {
-			const result = parser.parse("-author:Tolkien");
+		it("should parse negation words from the options", () => {
+			const parser = new QueryParser({ negationWords: ["nicht"] });
+			const result = parser.parse('NICHT archived "nicht"');
 
-			expect(result.astConditions[0]?.isNegated).toBe(true);
+			expect(result.astConditions).toMatchObject([
+				{ value: "archived", isNegated: true },
+				{ value: "nicht", isNegated: false }
+			]);
+			expect(parser.stringify(result.ast!)).toBe('-archived "nicht"');
 		});
 
-		it("should parse negated phrases", () => {
-			const result = parser.parse('-"hello world"');
+		it("should report NOT without a term", () => {
+			const result = parser.parse("a NOT");
 
-			expect(result.astConditions[0]?.isNegated).toBe(true);
+			expect(result.tokens).toEqual([{ start: 0, end: 1, type: "word", value: "a", position: 0 }]);
+			expect(result.metadata.errors).toEqual([{ start: 2, end: 5, type: "dangling_negation", message: expect.any(String), position: 2 }]);
 		});
 	});
 
@@ -211,27 +916,35 @@ describe("QueryParser", () => {
 		it("should handle deeply nested parentheses with correct AST", () => {
 			const result1 = parser.parse("((foo or bar) and baz)");
 			expect(result1.ast).toEqual({
+				start: 0,
+				end: 22,
 				type: "binary",
 				operator: "AND",
 				left: {
+					start: 1,
+					end: 13,
 					type: "binary",
 					operator: "OR",
-					left: { type: "condition", token: "word", value: "foo", position: 2 },
-					right: { type: "condition", token: "word", value: "bar", position: 9 }
+					left: { start: 2, end: 5, type: "condition", token: "word", value: "foo", position: 2 },
+					right: { start: 9, end: 12, type: "condition", token: "word", value: "bar", position: 9 }
 				},
-				right: { type: "condition", token: "word", value: "baz", position: 18 }
+				right: { start: 18, end: 21, type: "condition", token: "word", value: "baz", position: 18 }
 			});
 
 			const result2 = parser.parse("(foo and (bar or baz))");
 			expect(result2.ast).toEqual({
+				start: 0,
+				end: 22,
 				type: "binary",
 				operator: "AND",
-				left: { type: "condition", token: "word", value: "foo", position: 1 },
+				left: { start: 1, end: 4, type: "condition", token: "word", value: "foo", position: 1 },
 				right: {
+					start: 9,
+					end: 21,
 					type: "binary",
 					operator: "OR",
-					left: { type: "condition", token: "word", value: "bar", position: 10 },
-					right: { type: "condition", token: "word", value: "baz", position: 17 }
+					left: { start: 10, end: 13, type: "condition", token: "word", value: "bar", position: 10 },
+					right: { start: 17, end: 20, type: "condition", token: "word", value: "baz", position: 17 }
 				}
 			});
 		});
@@ -254,7 +967,9 @@ describe("QueryParser", () => {
 				{ query: "price>100", operator: ">" },
 				{ query: "price<100", operator: "<" },
 				{ query: "price>=100", operator: ">=" },
-				{ query: "price<=100", operator: "<=" }
+				{ query: "price<=100", operator: "<=" },
+				{ query: "price!=100", operator: "!=" },
+				{ query: "price<>100", operator: "!=" }
 			];
 
 			testCases.forEach(({ query, operator }) => {
@@ -286,6 +1001,157 @@ describe("QueryParser", () => {
 		});
 	});
 
+	describe("Units", () => {
+		const units = { size: "size", duration: "duration", progress: "percent" } as const;
+
+		it("should convert numbers with units to the base unit", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size>1.5GB duration<5m progress>=50%");
+
+			expect(result.tokens).toEqual([
+				{ type: "keyword_numeric", key: "size", operator: ">", value: 1610612736, unit: "GB", position: 0, start: 0, end: 10 },
+				{ type: "keyword_numeric", key: "duration", operator: "<", value: 300, unit: "m", position: 11, start: 11, end: 22 },
+				{ type: "keyword_numeric", key: "progress", operator: ">=", value: 50, unit: "%", position: 23, start: 23, end: 36 }
+			]);
+			expect(result.astConditions.map((cond) => cond.unit)).toEqual(["GB", "m", "%"]);
+		});
+
+		it("should match units case-insensitively and allow numbers without a unit", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size:10mb size<512 duration>=2D duration:90S");
+
+			expect(result.astConditions.map(({ value, unit }) => [value, unit])).toEqual([
+				[10485760, "mb"],
+				[512, undefined],
+				[172800, "D"],
+				[90, "S"]
+			]);
+		});
+
+		it("should convert both ends of ranges", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size:1MB..2GB -duration:1h..<2d");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "size", operator: ">=", value: 1048576, unit: "MB" },
+				{ key: "size", operator: "<=", value: 2147483648, unit: "GB" },
+				{ key: "duration", operator: ">=", value: 3600, unit: "h", isNegated: true },
+				{ key: "duration", operator: "<", value: 172800, unit: "d", isNegated: true }
+			]);
+		});
+
+		it("should read four-digit numbers as numbers for keys with units", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("duration>2000s size:1000..2000");
+
+			expect(result.astConditions.map((cond) => [cond.isNumeric, cond.value])).toEqual([
+				[true, 2000],
+				[true, 1000],
+				[true, 2000]
+			]);
+		});
+
+		it("should reject units that are not accepted for the key", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size>10XB progress:5m..10m price<10GB duration:5");
+
+			expect(result.metadata.errors).toEqual([
+				{ type: "invalid_value", message: expect.any(String), position: 0, start: 0, end: 9, key: "size", value: "10XB" },
+				{ type: "invalid_value", message: expect.any(String), position: 10, start: 10, end: 26, key: "progress", value: "5m" },
+				{ type: "invalid_value", message: expect.any(String), position: 27, start: 27, end: 37, key: "price", value: "10GB" }
+			]);
+			expect(result.tokens).toEqual([{ type: "keyword_numeric", key: "duration", operator: "=", value: 5, position: 38, start: 38, end: 48 }]);
+		});
+
+		it("should read negative durations as numbers instead of relative dates", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("duration:-5m duration>-1h -duration:-2d..1w");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.astConditions.map(({ operator, value, unit, isNumeric }) => [operator, value, unit, isNumeric])).toEqual([
+				["=", -300, "m", true],
+				[">", -3600, "h", true],
+				[">=", -172800, "d", true],
+				["<=", 604800, "w", true]
+			]);
+			expect(new QueryParser({ units, schema: { created: { type: "date" } } }).parse("created>-1h").tokens[0]).toMatchObject({
+				type: "keyword_date"
+			});
+		});
+
+		it("should convert the values of sets to the base unit", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size:(1KB|2kb|512) duration:1h,30m");
+
+			expect(result.tokens).toEqual([
+				{ type: "keyword_set", key: "size", value: [1024, 2048, 512], units: ["KB", "kb", ""], position: 0, start: 0, end: 18 },
+				{ type: "keyword_set", key: "duration", value: [3600, 1800], units: ["h", "m"], position: 19, start: 19, end: 34 }
+			]);
+			expect(result.astConditions[0]).toMatchObject({ value: [1024, 2048, 512], units: ["KB", "kb", ""] });
+			expect(parser.parse("size:1,2").tokens[0]).not.toHaveProperty("units");
+			expect(parser.parse("size:(1KB|1XB)").metadata.errors).toEqual([
+				{ type: "invalid_value", message: "Invalid unit for size: XB", position: 0, start: 0, end: 14, key: "size", value: "1XB" }
+			]);
+		});
+
+		it("should reject sets with values that are not numbers for keys with units", () => {
+			const parser = new QueryParser({ units });
+
+			expect(parser.parse("size:10MB,abc").metadata.errors).toEqual([
+				{ type: "invalid_value", message: "Invalid number for size: abc", position: 0, start: 0, end: 13, key: "size", value: "abc" }
+			]);
+			expect(parser.parse('size:(1KB|"2KB")').metadata.errors).toMatchObject([{ type: "invalid_value", value: '"2KB"' }]);
+		});
+
+		it("should stringify sets with the units they were written with", () => {
+			const parser = new QueryParser({ units });
+			const { ast } = parser.parse("size:(1KB|2MB|512) -duration:1.5h,30m");
+
+			expect(parser.stringify(ast!)).toBe("size:(1KB|2MB|512) -duration:(1.5h|30m)");
+			expect(parser.parse(parser.stringify(ast!)).ast).toMatchObject({ left: { value: [1024, 2097152, 512] }, right: { value: [5400, 1800] } });
+		});
+
+		it("should reject the whole term if a number with a unit is followed by other text", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size:1e3 size>2GB/s a");
+
+			expect(result.metadata.errors).toEqual([
+				{ type: "invalid_value", message: "Invalid unit for size: e3", position: 0, start: 0, end: 8, key: "size", value: "1e3" },
+				{ type: "invalid_value", message: "Invalid unit for size: GB/s", position: 9, start: 9, end: 19, key: "size", value: "2GB/s" }
+			]);
+			expect(result.tokens).toEqual([{ type: "word", value: "a", position: 20, start: 20, end: 21 }]);
+		});
+
+		it("should read text that starts with a number as text for keys without units", () => {
+			const result = parser.parse("model:3dfx");
+
+			expect(result.tokens).toEqual([{ type: "keyword", key: "model", value: "3dfx", position: 0, start: 0, end: 10 }]);
+		});
+
+		it("should read the whole term as text if a number is followed by other text", () => {
+			const result = parser.parse("x:1e3 tag:4k-video isbn:978-3-16 rating:4.5-star|x:10&y");
+
+			expect(result.metadata.hasErrors).toBe(false);
+			expect(result.tokens).toEqual([
+				{ type: "keyword", key: "x", value: "1e3", position: 0, start: 0, end: 5 },
+				{ type: "keyword", key: "tag", value: "4k-video", position: 6, start: 6, end: 18 },
+				{ type: "keyword", key: "isbn", value: "978-3-16", position: 19, start: 19, end: 32 },
+				{ type: "keyword", key: "rating", value: "4.5-star", position: 33, start: 33, end: 48 },
+				{ type: "operator", value: "|", position: 48, start: 48, end: 49 },
+				{ type: "keyword_numeric", key: "x", operator: "=", value: 10, position: 49, start: 49, end: 53 },
+				{ type: "operator", value: "&", position: 53, start: 53, end: 54 },
+				{ type: "word", value: "y", position: 54, start: 54, end: 55 }
+			]);
+		});
+
+		it("should stringify numbers with the unit they were written with", () => {
+			const parser = new QueryParser({ units });
+			const result = parser.parse("size>1.5GB -duration:1h..<2d progress:10%.. size<512 duration<0.1ms");
+
+			expect(parser.stringify(result.ast!)).toBe("size>1.5GB -duration:1h..<2d progress>=10% size<512 duration<0.1ms");
+		});
+	});
+
 	describe("Date Operations", () => {
 		it("should parse ISO date strings", () => {
 			const result = parser.parse("created:2024-01-15");
@@ -323,6 +1189,18 @@ describe("QueryParser", () => {
 			});
 		});
 
+		it("should parse not-equal dates", () => {
+			const result = parser.parse("created!=2024-01-15T10:30:00Z -created<>2024-01");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 29, type: "keyword_date", key: "created", operator: "!=", value: new Date("2024-01-15T10:30:00Z"), position: 0 },
+				{ start: 31, end: 31, type: "open_paren", position: 31 },
+				{ start: 31, end: 47, type: "keyword_date", key: "created", operator: ">=", value: new Date("2024-01-01T00:00:00.000Z"), position: 31 },
+				{ start: 31, end: 47, type: "keyword_date", key: "created", operator: "<=", value: new Date("2024-01-31T23:59:59.999Z"), position: 31 },
+				{ start: 47, end: 47, type: "close_paren", position: 31 }
+			]);
+		});
+
 		it("should parse month-only dates", () => {
 			const result = parser.parse("created:2024-01");
 
@@ -352,17 +1230,202 @@ describe("QueryParser", () => {
 		});
 	});
 
+	describe("Relative Dates", () => {
+		const now = new Date("2025-03-31T15:30:00.000Z");
+
+		const schema = { created: { type: "date" }, updated: { type: "date" }, due: { type: "date" } } as const;
+
+		beforeEach(() => {
+			parser = new QueryParser({ schema, now: () => now });
+		});
+
+		it("should resolve day offsets against the current day", () => {
+			const result = parser.parse("created>-7d due<+2w");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 11, type: "keyword_date", key: "created", operator: ">", value: new Date("2025-03-24T23:59:59.999Z"), position: 0 },
+				{ start: 12, end: 19, type: "keyword_date", key: "due", operator: "<", value: new Date("2025-04-14T00:00:00.000Z"), position: 12 }
+			]);
+		});
+
+		it("should resolve hour offsets against the current time", () => {
+			const result = parser.parse("updated>=-2h");
+
+			expect(result.tokens).toEqual([
+				{ start: 0, end: 12, type: "keyword_date", key: "updated", operator: ">=", value: new Date("2025-03-31T13:30:00.000Z"), position: 0 }
+			]);
+		});
+
+		it("should clamp month and year offsets to the end of the month", () => {
+			expect(parser.parse("updated<-1m").tokens[0]).toMatchObject({ value: new Date("2025-02-28T00:00:00.000Z") });
+			expect(new QueryParser({ schema, now: () => new Date("2024-02-29T12:00:00Z") }).parse("updated<+1y").tokens[0]).toMatchObject({
+				value: new Date("2025-02-28T00:00:00.000Z")
+			});
+		});
+
+		it("should expand named days to the whole day", () => {
+			expect(parser.parse("updated:today").tokens).toEqual([
+				{ start: 0, end: 0, type: "open_paren", position: 0 },
+				{ start: 0, end: 13, type: "keyword_date", key: "updated", operator: ">=", value: new Date("2025-03-31T00:00:00.000Z"), position: 0 },
+				{ start: 0, end: 13, type: "keyword_date", key: "updated", operator: "<=", value: new Date("2025-03-31T23:59:59.999Z"), position: 0 },
+				{ start: 13, end: 13, type: "close_paren", position: 0 }
+			]);
+			expect(parser.parse("updated:yesterday").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("2025-03-30T00:00:00.000Z") },
+				{ value: new Date("2025-03-30T23:59:59.999Z") }
+			]);
+			expect(parser.parse("updated<tomorrow").tokens[0]).toMatchObject({ value: new Date("2025-04-01T00:00:00.000Z") });
+		});
+
+		it("should expand named months and years to the whole period", () => {
+			expect(parser.parse("created:this-month").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2025-03-01T00:00:00.000Z") },
+				{ operator: "<=", value: new Date("2025-03-31T23:59:59.999Z") }
+			]);
+			expect(parser.parse("created:last-year").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-01-01T00:00:00.000Z") },
+				{ operator: "<=", value: new Date("2024-12-31T23:59:59.999Z") }
+			]);
+			expect(parser.parse("created>next-month").tokens[0]).toMatchObject({ value: new Date("2025-04-30T23:59:59.999Z") });
+		});
+
+		it("should support relative dates in ranges and negations", () => {
+			expect(parser.parse("created:-7d..today").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2025-03-24T00:00:00.000Z") },
+				{ operator: "<=", value: new Date("2025-03-31T23:59:59.999Z") }
+			]);
+			expect(parser.parse("-updated:today").tokens[0]).toEqual({ start: 0, end: 1, type: "open_paren", negated: true, position: 1 });
+		});
+
+		it("should leave relative words without a key as text", () => {
+			expect(parser.parse("today -7days").tokens).toEqual([
+				{ start: 0, end: 5, type: "word", value: "today", position: 0 },
+				{ start: 6, end: 7, type: "negation", position: 6 },
+				{ start: 7, end: 12, type: "word", value: "7days", position: 7 }
+			]);
+		});
+
+		it("should treat relative words as text for string keys in the schema", () => {
+			const parser = new QueryParser({ schema: { title: { type: "string" } }, now: () => now });
+
+			expect(parser.parse("title:today").tokens).toEqual([{ start: 0, end: 11, type: "keyword", key: "title", value: "today", position: 0 }]);
+		});
+
+		it("should only resolve relative dates for keys declared as dates", () => {
+			const parser = new QueryParser({ now: () => now });
+
+			expect(parser.parse("title:today tag:next-year note:-2d").tokens).toEqual([
+				{ start: 0, end: 11, type: "keyword", key: "title", value: "today", position: 0 },
+				{ start: 12, end: 25, type: "keyword", key: "tag", value: "next-year", position: 12 },
+				{ start: 26, end: 34, type: "keyword", key: "note", value: "-2d", position: 26 }
+			]);
+			expect(parser.parse("created>-7d").metadata.errors).toMatchObject([{ type: "invalid_value", key: "created", value: "-7d" }]);
+		});
+	});
+
+	describe("Time Zones", () => {
+		beforeEach(() => {
+			parser = new QueryParser({ timeZone: "America/Los_Angeles" });
+		});
+
+		it("should expand full dates, months, and years in the time zone", () => {
+			expect(parser.parse("created:2024-05-01").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-05-01T07:00:00.000Z") },
+				{ operator: "<=", value: new Date("2024-05-02T06:59:59.999Z") }
+			]);
+			expect(parser.parse("created:2024-05").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-05-01T07:00:00.000Z") },
+				{ operator: "<=", value: new Date("2024-06-01T06:59:59.999Z") }
+			]);
+			expect(parser.parse("created:2024").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-01-01T08:00:00.000Z") },
+				{ operator: "<=", value: new Date("2025-01-01T07:59:59.999Z") }
+			]);
+		});
+
+		it("should account for daylight saving time changes within a span", () => {
+			expect(parser.parse("created:2024-03-10").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("2024-03-10T08:00:00.000Z") },
+				{ value: new Date("2024-03-11T06:59:59.999Z") }
+			]);
+			expect(parser.parse("created:2024-11-03").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("2024-11-03T07:00:00.000Z") },
+				{ value: new Date("2024-11-04T07:59:59.999Z") }
+			]);
+		});
+
+		it("should interpret range ends and comparisons in the time zone", () => {
+			expect(parser.parse("created:2024-05-01..2024-05-31").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-05-01T07:00:00.000Z") },
+				{ operator: "<=", value: new Date("2024-06-01T06:59:59.999Z") }
+			]);
+			expect(parser.parse("created<2024-05-01 created>2024-05-01").tokens).toMatchObject([
+				{ operator: "<", value: new Date("2024-05-01T07:00:00.000Z") },
+				{ operator: ">", value: new Date("2024-05-02T06:59:59.999Z") }
+			]);
+		});
+
+		it("should read dates with a time but no offset as wall clock time", () => {
+			expect(parser.parse("created:2024-05-01T10:00").tokens).toEqual([
+				{ start: 0, end: 24, type: "keyword_date", key: "created", operator: "=", value: new Date("2024-05-01T17:00:00.000Z"), position: 0 }
+			]);
+			expect(parser.parse("created>=2024-05-01 10:00").tokens[0]).toMatchObject({ value: new Date("2024-05-01T17:00:00.000Z") });
+		});
+
+		it("should leave dates with an explicit offset unchanged", () => {
+			expect(parser.parse("created:2024-05-01T10:00Z").tokens[0]).toMatchObject({ value: new Date("2024-05-01T10:00:00.000Z") });
+			expect(parser.parse("created>=2024-05-01T10:00+02:00").tokens[0]).toMatchObject({ value: new Date("2024-05-01T08:00:00.000Z") });
+		});
+
+		it("should resolve relative dates against the current date in the time zone", () => {
+			const parser = new QueryParser({
+				schema: { updated: { type: "date" } },
+				timeZone: "America/Los_Angeles",
+				now: () => new Date("2025-03-31T03:00:00.000Z")
+			});
+
+			expect(parser.parse("updated:today").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("2025-03-30T07:00:00.000Z") },
+				{ value: new Date("2025-03-31T06:59:59.999Z") }
+			]);
+			expect(parser.parse("updated>=-2h").tokens[0]).toMatchObject({ value: new Date("2025-03-31T01:00:00.000Z") });
+		});
+
+		it("should interpret dates before the year 100 in the time zone", () => {
+			const parser = new QueryParser({ timeZone: "Etc/GMT-2" });
+
+			expect(parser.parse("created:0050-06-15T12:00").tokens[0]).toMatchObject({ value: new Date("0050-06-15T10:00:00.000Z") });
+			expect(parser.parse("created:0099").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("0098-12-31T22:00:00.000Z") },
+				{ value: new Date("0099-12-31T21:59:59.999Z") }
+			]);
+		});
+
+		it("should support time zones ahead of UTC", () => {
+			const parser = new QueryParser({ timeZone: "Asia/Tokyo" });
+
+			expect(parser.parse("created:2024-05-01").tokens.slice(1, 3)).toMatchObject([
+				{ value: new Date("2024-04-30T15:00:00.000Z") },
+				{ value: new Date("2024-05-01T14:59:59.999Z") }
+			]);
+		});
+
+		it("should throw for an invalid time zone", () => {
+			expect(() => new QueryParser({ timeZone: "Mars/Olympus_Mons" })).toThrow(RangeError);
+		});
+	});
+
 	describe("Range Syntax", () => {
 		it("should parse numeric ranges", () => {
 			const result = parser.parse("price:100..200");
 
-			expect(result.tokens).toHaveLength(2);
-			expect(result.tokens[0]).toMatchObject({
+			expect(result.tokens).toHaveLength(4); // open_paren, numeric>=, numeric<=, close_paren
+			expect(result.tokens[1]).toMatchObject({
 				type: "keyword_numeric",
 				operator: ">=",
 				value: 100
 			});
-			expect(result.tokens[1]).toMatchObject({
+			expect(result.tokens[2]).toMatchObject({
 				type: "keyword_numeric",
 				operator: "<=",
 				value: 200
@@ -404,27 +1467,33 @@ describe("QueryParser", () => {
 		});
 
 		it("should parse date operators and ranges with Date object comparison", () => {
-			const parser = new TestQueryParser({ validKeys: ["created"] });
+			const parser = new QueryParser({ validKeys: ["created"] });
 
 			// Full Date
 			let result = parser.parse("created<2025-05-05 OR created=2025-05-10 OR created>2025-05-15");
 			expect(result.tokens).toEqual([
-				{ type: "keyword_date", key: "created", operator: "<", value: new Date("2025-05-05T00:00:00.000Z"), position: 0 },
-				{ type: "operator", value: "OR", position: 19 },
-				{ type: "open_paren", position: 22 },
-				{ type: "keyword_date", key: "created", operator: ">=", value: new Date("2025-05-10T00:00:00.000Z"), position: 22 },
-				{ type: "keyword_date", key: "created", operator: "<=", value: new Date("2025-05-10T23:59:59.999Z"), position: 22 },
-				{ type: "close_paren", position: 22 },
-				{ type: "operator", value: "OR", position: 41 },
-				{ type: "keyword_date", key: "created", operator: ">", value: new Date("2025-05-15T23:59:59.999Z"), position: 44 }
+				{ start: 0, end: 18, type: "keyword_date", key: "created", operator: "<", value: new Date("2025-05-05T00:00:00.000Z"), position: 0 },
+				{ start: 19, end: 21, type: "operator", value: "OR", position: 19 },
+				{ start: 22, end: 22, type: "open_paren", position: 22 },
+				{ start: 22, end: 40, type: "keyword_date", key: "created", operator: ">=", value: new Date("2025-05-10T00:00:00.000Z"), position: 22 },
+				{ start: 22, end: 40, type: "keyword_date", key: "created", operator: "<=", value: new Date("2025-05-10T23:59:59.999Z"), position: 22 },
+				{ start: 40, end: 40, type: "close_paren", position: 22 },
+				{ start: 41, end: 43, type: "operator", value: "OR", position: 41 },
+				{ start: 44, end: 62, type: "keyword_date", key: "created", operator: ">", value: new Date("2025-05-15T23:59:59.999Z"), position: 44 }
 			]);
 			expect(result.ast).toEqual({
+				start: 0,
+				end: 62,
 				type: "binary",
 				operator: "OR",
 				left: {
+					start: 0,
+					end: 40,
 					type: "binary",
 					operator: "OR",
 					left: {
+						start: 0,
+						end: 18,
 						type: "condition",
 						token: "keyword_date",
 						key: "created",
@@ -433,9 +1502,13 @@ describe("QueryParser", () => {
 						position: 0
 					},
 					right: {
+						start: 22,
+						end: 40,
 						type: "binary",
 						operator: "AND",
 						left: {
+							start: 22,
+							end: 40,
 							type: "condition",
 							token: "keyword_date",
 							key: "created",
@@ -444,6 +1517,8 @@ describe("QueryParser", () => {
 							position: 22
 						},
 						right: {
+							start: 22,
+							end: 40,
 							type: "condition",
 							token: "keyword_date",
 							key: "created",
@@ -454,6 +1529,8 @@ describe("QueryParser", () => {
 					}
 				},
 				right: {
+					start: 44,
+					end: 62,
 					type: "condition",
 					token: "keyword_date",
 					key: "created",
@@ -463,42 +1540,337 @@ describe("QueryParser", () => {
 				}
 			});
 		});
-	});
 
-	describe("Parser Options", () => {
-		describe("validKeys option", () => {
-			it("should accept valid keys", () => {
-				const parser = new TestQueryParser({ validKeys: ["title", "author"] });
-				const result = parser.parse("author:Tolkien");
+		it("should parse open-ended numeric ranges", () => {
+			expect(parser.parse("price:10..").tokens).toEqual([
+				{ start: 0, end: 10, type: "keyword_numeric", key: "price", operator: ">=", value: 10, position: 0 }
+			]);
+			expect(parser.parse("price:..100").tokens).toEqual([
+				{ start: 0, end: 11, type: "keyword_numeric", key: "price", operator: "<=", value: 100, position: 0 }
+			]);
+			expect(parser.parse("price:..<100").tokens).toEqual([
+				{ start: 0, end: 12, type: "keyword_numeric", key: "price", operator: "<", value: 100, position: 0 }
+			]);
+		});
+
+		it("should parse open-ended date ranges", () => {
+			expect(parser.parse("created:2024-01..").tokens).toEqual([
+				{ start: 0, end: 17, type: "keyword_date", key: "created", operator: ">=", value: new Date("2024-01-01T00:00:00.000Z"), position: 0 }
+			]);
+			expect(parser.parse("created:..2024-01").tokens).toEqual([
+				{ start: 0, end: 17, type: "keyword_date", key: "created", operator: "<=", value: new Date("2024-01-31T23:59:59.999Z"), position: 0 }
+			]);
+			expect(parser.parse("created:..<2024-01").tokens).toEqual([
+				{ start: 0, end: 18, type: "keyword_date", key: "created", operator: "<", value: new Date("2024-01-01T00:00:00.000Z"), position: 0 }
+			]);
+		});
+
+		it("should parse ranges with an exclusive end", () => {
+			expect(parser.parse("price:10..<20").tokens).toEqual([
+				{ start: 0, end: 0, type: "open_paren", position: 0 },
+				{ start: 0, end: 8, type: "keyword_numeric", key: "price", operator: ">=", value: 10, position: 0 },
+				{ start: 8, end: 13, type: "keyword_numeric", key: "price", operator: "<", value: 20, position: 0 },
+				{ start: 13, end: 13, type: "close_paren", position: 0 }
+			]);
+			expect(parser.parse("created:2024-01-01..<2024-02-01").tokens.slice(1, 3)).toMatchObject([
+				{ operator: ">=", value: new Date("2024-01-01T00:00:00.000Z") },
+				{ operator: "<", value: new Date("2024-02-01T00:00:00.000Z") }
+			]);
+		});
+
+		it("should negate open-ended and exclusive ranges", () => {
+			expect(parser.parse("-price:10..").ast).toMatchObject({ type: "condition", operator: ">=", value: 10, negated: true });
+			expect(parser.parse("-price:10..<20").tokens[0]).toEqual({ start: 0, end: 1, type: "open_paren", negated: true, position: 1 });
+			expect(parser.parse("-price:10..<20").astConditions).toMatchObject([
+				{ key: "price", operator: ">=", value: 10, isNegated: true },
+				{ key: "price", operator: "<", value: 20, isNegated: true }
+			]);
+		});
+
+		describe("Range negation and grouping", () => {
+			const ranges = [
+				{ query: "price:10..20", key: "price", operators: [">=", "<="] },
+				{ query: "price:-5.5..<20", key: "price", operators: [">=", "<"] },
+				{ query: "created:2024-01-01..2024-12-31", key: "created", operators: [">=", "<="] },
+				{ query: "created:2024-01..<2024-03", key: "created", operators: [">=", "<"] },
+				{ query: "created:2024-01", key: "created", operators: [">=", "<="] },
+				{ query: "created=2024-05-01", key: "created", operators: [">=", "<="] }
+			];
+
+			it("should group both bounds of every range", () => {
+				for (const { query, key, operators } of ranges) {
+					const { ast } = parser.parse(query);
+
+					expect(ast).toMatchObject({
+						type: "binary",
+						operator: "AND",
+						left: { type: "condition", key, operator: operators[0] },
+						right: { type: "condition", key, operator: operators[1] }
+					});
+				}
+			});
+
+			it("should negate both bounds of every range", () => {
+				for (const { query, operators } of ranges) {
+					for (const negated of [`-${query}`, `!${query}`, `NOT ${query}`]) {
+						const result = parser.parse(negated);
+
+						expect(result.ast).toMatchObject({ type: "binary", negated: true });
+						expect(result.ast?.type === "binary" && [result.ast.left.negated, result.ast.right.negated]).toEqual([undefined, undefined]);
+						expect(result.astConditions).toMatchObject([
+							{ operator: operators[0], isNegated: true },
+							{ operator: operators[1], isNegated: true }
+						]);
+					}
+				}
+			});
+
+			it("should keep the bounds of every range together with OR, with and without precedence", () => {
+				for (const operatorPrecedence of [true, false]) {
+					const parser = new QueryParser({ operatorPrecedence });
+
+					for (const { query } of ranges) {
+						const { ast } = parser.parse(`a OR ${query} OR b`);
+
+						expect(ast).toMatchObject({
+							type: "binary",
+							operator: "OR",
+							left: { type: "binary", operator: "OR", left: { value: "a" }, right: { type: "binary", operator: "AND" } },
+							right: { value: "b" }
+						});
+					}
+				}
+			});
+
+			it("should stringify every range with the range syntax", () => {
+				expect(parser.stringify(parser.parse("-price:10..20").ast!)).toBe("-price:10..20");
+				expect(parser.stringify(parser.parse("a OR !price:-5.5..<20").ast!)).toBe("a OR -price:-5.5..<20");
+				expect(parser.stringify(parser.parse("price:100..2000").ast!)).toBe("price:100..2000.0");
+				expect(parser.stringify(parser.parse("-created:2024-01").ast!)).toBe("-created:2024-01-01T00:00:00.000Z..2024-01-31T23:59:59.999Z");
+				expect(parser.stringify(parser.parse("created:2024-01..<2024-03").ast!)).toBe("created:2024-01-01T00:00:00.000Z..<2024-03-01T00:00:00.000Z");
+				expect(parser.stringify(parser.parse("a price>=10 price<=20").ast!)).toBe("a price>=10 price<=20");
+
+				const unordered = new QueryParser({ operatorPrecedence: false });
+				expect(unordered.stringify(unordered.parse("a OR price:10..20").ast!)).toBe("a OR price:10..20");
+			});
+		});
+
+		it("should treat open-ended year ranges as numbers for number keys in the schema", () => {
+			const parser = new QueryParser({ schema: { year: { type: "number" } } });
+
+			expect(parser.parse("year:2020..").tokens).toEqual([
+				{ start: 0, end: 11, type: "keyword_numeric", key: "year", operator: ">=", value: 2020, position: 0 }
+			]);
+		});
+	});
+
+	describe("Parser Options", () => {
+		describe("validKeys option", () => {
+			it("should accept valid keys", () => {
+				const parser = new QueryParser({ validKeys: ["title", "author"] });
+				const result = parser.parse("author:Tolkien");
+
+				expect(result.metadata.hasErrors).toBe(false);
+				expect(result.tokens).toHaveLength(1);
+			});
+
+			it("should reject invalid keys", () => {
+				const parser = new QueryParser({ validKeys: ["title", "author"] });
+				const result = parser.parse("invalid:value");
+
+				expect(result.metadata.hasErrors).toBe(true);
+				expect(result.metadata.errors[0]).toMatchObject({
+					type: "invalid_key",
+					key: "invalid",
+					value: "value"
+				});
+			});
+
+			it("should handle negated invalid keys", () => {
+				const parser = new QueryParser({ validKeys: ["title"] });
+				const result = parser.parse("-invalid:value");
+
+				expect(result.metadata.hasErrors).toBe(true);
+				expect(result.tokens).toHaveLength(0); // Negation token should be removed
+			});
+		});
+
+		describe("schema option", () => {
+			const schema = {
+				name: { type: "string" },
+				age: { type: "number" },
+				created: { type: "date" },
+				archived: { type: "boolean" },
+				status: { type: "enum", values: ["Open", "Closed"] }
+			} as const;
+
+			it("should treat schema keys as valid keys", () => {
+				const parser = new QueryParser({ validKeys: ["title"], schema });
+				const result = parser.parse("title:hobbit name:bilbo other:value");
+
+				expect(result.tokens).toHaveLength(2);
+				expect(result.metadata.errors).toEqual([
+					{ start: 24, end: 35, type: "invalid_key", message: expect.any(String), position: 24, key: "other", value: "value" }
+				]);
+			});
+
+			it("should coerce numeric and date values for string keys", () => {
+				const parser = new QueryParser({ schema });
+				const result = parser.parse("name:5 name:2024");
+
+				expect(result.metadata.hasErrors).toBe(false);
+				expect(result.tokens).toEqual([
+					{ start: 0, end: 6, type: "keyword", key: "name", value: "5", position: 0 },
+					{ start: 7, end: 16, type: "keyword", key: "name", value: "2024", position: 7 }
+				]);
+			});
+
+			it("should coerce years to numbers for number keys", () => {
+				const parser = new QueryParser({ schema });
+				const result = parser.parse("age:2024 age:1990..2000");
+
+				expect(result.metadata.hasErrors).toBe(false);
+				expect(result.tokens).toEqual([
+					{ start: 0, end: 8, type: "keyword_numeric", key: "age", operator: "=", value: 2024, position: 0 },
+					{ start: 9, end: 9, type: "open_paren", position: 9 },
+					{ start: 9, end: 17, type: "keyword_numeric", key: "age", operator: ">=", value: 1990, position: 9 },
+					{ start: 17, end: 23, type: "keyword_numeric", key: "age", operator: "<=", value: 2000, position: 9 },
+					{ start: 23, end: 23, type: "close_paren", position: 9 }
+				]);
+			});
+
+			it("should report type mismatches", () => {
+				const parser = new QueryParser({ schema });
+				const testCases = [
+					{ query: "age:thirty", value: "thirty" },
+					{ query: 'age:"thirty"', value: "thirty" },
+					{ query: "age:2024-01", value: "2024-01" },
+					{ query: "name>5", value: "5" },
+					{ query: "created:100", value: "100" },
+					{ query: "created:soon", value: "soon" },
+					{ query: "created:1..5", value: "1..5" },
+					{ query: "archived:/t/", value: "t" },
+					{ query: "status<5", value: "5" }
+				];
+
+				testCases.forEach(({ query, value }) => {
+					const result = parser.parse(query);
+					expect(result.tokens).toHaveLength(0);
+					expect(result.metadata.errors).toEqual([
+						{ start: 0, end: query.length, type: "type_mismatch", message: expect.any(String), position: 0, key: expect.any(String), value }
+					]);
+				});
+			});
+
+			it("should remove the negation of rejected values", () => {
+				const parser = new QueryParser({ schema });
+				const result = parser.parse("-age:thirty");
+
+				expect(result.tokens).toHaveLength(0);
+				expect(result.metadata.errors[0]?.type).toBe("type_mismatch");
+			});
+
+			it("should normalize boolean and enum values", () => {
+				const parser = new QueryParser({ schema });
+				const result = parser.parse('archived:TRUE status:open status:"closed"');
+
+				expect(result.metadata.hasErrors).toBe(false);
+				expect(result.tokens).toEqual([
+					{ start: 0, end: 13, type: "keyword_boolean", key: "archived", value: true, position: 0 },
+					{ start: 14, end: 25, type: "keyword", key: "status", value: "Open", position: 14 },
+					{ start: 26, end: 41, type: "keyword_phrase", key: "status", value: "Closed", position: 26 }
+				]);
+			});
+
+			it("should report invalid boolean and enum values", () => {
+				const parser = new QueryParser({ schema });
+				const result = parser.parse("archived:t status:blocked");
+
+				expect(result.tokens).toHaveLength(0);
+				expect(result.metadata.errors).toEqual([
+					{ start: 0, end: 10, type: "invalid_value", message: expect.any(String), position: 0, key: "archived", value: "t" },
+					{ start: 11, end: 25, type: "invalid_value", message: expect.any(String), position: 11, key: "status", value: "blocked" }
+				]);
+			});
+		});
+
+		describe("keyAliases and caseInsensitiveKeys options", () => {
+			it("should resolve aliases to canonical keys", () => {
+				const parser = new QueryParser({ validKeys: ["author", "price"], keyAliases: { a: "author", p: "price" } });
+				const result = parser.parse("a:tolkien p>10");
 
 				expect(result.metadata.hasErrors).toBe(false);
-				expect(result.tokens).toHaveLength(1);
+				expect(result.tokens).toEqual([
+					{ start: 0, end: 9, type: "keyword", key: "author", originalKey: "a", value: "tolkien", position: 0 },
+					{ start: 10, end: 14, type: "keyword_numeric", key: "price", originalKey: "p", operator: ">", value: 10, position: 10 }
+				]);
+				expect(result.astConditions[0]).toMatchObject({ key: "author", originalKey: "a" });
 			});
 
-			it("should reject invalid keys", () => {
-				const parser = new TestQueryParser({ validKeys: ["title", "author"] });
-				const result = parser.parse("invalid:value");
+			it("should reject aliases for keys that are not valid", () => {
+				const parser = new QueryParser({ validKeys: ["title"], schema: { price: { type: "number" } }, keyAliases: { a: "author", p: "price" } });
+				const result = parser.parse("a:x p>10");
 
-				expect(result.metadata.hasErrors).toBe(true);
-				expect(result.metadata.errors[0]).toMatchObject({
-					type: "invalid_key",
-					key: "invalid",
-					value: "value"
+				expect(result.metadata.errors).toEqual([
+					{ start: 0, end: 3, type: "invalid_key", message: expect.any(String), position: 0, key: "a", value: "x" }
+				]);
+				expect(result.astConditions).toEqual([expect.objectContaining({ key: "price", originalKey: "p" })]);
+			});
+
+			it("should match keys case-insensitively", () => {
+				const parser = new QueryParser({ validKeys: ["author", "created"], caseInsensitiveKeys: true });
+				const result = parser.parse("Author:tolkien CREATED:2024");
+
+				expect(result.metadata.hasErrors).toBe(false);
+				expect(result.ast).toMatchObject({
+					left: { key: "author", originalKey: "Author" },
+					right: {
+						left: { key: "created", originalKey: "CREATED", operator: ">=" },
+						right: { key: "created", originalKey: "CREATED", operator: "<=" }
+					}
 				});
 			});
 
-			it("should handle negated invalid keys", () => {
-				const parser = new TestQueryParser({ validKeys: ["title"] });
-				const result = parser.parse("-invalid:value");
+			it("should match aliases case-insensitively", () => {
+				const parser = new QueryParser({ validKeys: ["author"], keyAliases: { a: "author" }, caseInsensitiveKeys: true });
+				const result = parser.parse("A:tolkien");
 
-				expect(result.metadata.hasErrors).toBe(true);
-				expect(result.tokens).toHaveLength(0); // Negation token should be removed
+				expect(result.tokens[0]).toMatchObject({ key: "author", originalKey: "A" });
+			});
+
+			it("should lowercase keys when there are no valid keys", () => {
+				const parser = new QueryParser({ caseInsensitiveKeys: true });
+				const result = parser.parse("Author:tolkien author:lewis");
+
+				expect(result.tokens[0]).toEqual({ start: 0, end: 14, type: "keyword", key: "author", originalKey: "Author", value: "tolkien", position: 0 });
+				expect(result.tokens[1]).toEqual({ start: 15, end: 27, type: "keyword", key: "author", value: "lewis", position: 15 });
+			});
+
+			it("should reject keys with a different case by default", () => {
+				const parser = new QueryParser({ validKeys: ["author"] });
+				const result = parser.parse("Author:tolkien");
+
+				expect(result.metadata.errors[0]).toMatchObject({ type: "invalid_key", key: "Author" });
+			});
+
+			it("should use the original spelling in errors", () => {
+				const parser = new QueryParser({ schema: { age: { type: "number" } }, keyAliases: { years: "age" } });
+				const result = parser.parse("years:thirty");
+
+				expect(result.metadata.errors[0]).toMatchObject({ type: "type_mismatch", key: "years", message: "Expected a number value for years" });
+			});
+
+			it("should stringify the original spelling", () => {
+				const parser = new QueryParser({ validKeys: ["author"], keyAliases: { a: "author" } });
+				const { ast } = parser.parse("a:tolkien -author:lewis");
+
+				expect(parser.stringify(ast!)).toBe("a:tolkien -author:lewis");
 			});
 		});
 
 		describe("defaultKey option", () => {
 			it("should use default key for bare words", () => {
-				const parser = new TestQueryParser({ defaultKey: "content" });
+				const parser = new QueryParser({ defaultKey: "content" });
 				const result = parser.parse("hello");
 
 				expect(result.tokens[0]).toMatchObject({
@@ -509,7 +1881,7 @@ describe("QueryParser", () => {
 			});
 
 			it("should use default key for phrases", () => {
-				const parser = new TestQueryParser({ defaultKey: "content" });
+				const parser = new QueryParser({ defaultKey: "content" });
 				const result = parser.parse('"hello world"');
 
 				expect(result.tokens[0]).toMatchObject({
@@ -520,7 +1892,7 @@ describe("QueryParser", () => {
 			});
 
 			it("should use default key for regex", () => {
-				const parser = new TestQueryParser({ defaultKey: "content" });
+				const parser = new QueryParser({ defaultKey: "content" });
 				const result = parser.parse("/test.*/");
 
 				expect(result.tokens[0]).toMatchObject({
@@ -576,6 +1948,16 @@ describe("QueryParser", () => {
 
 			expect(result.astConditions[0]?.isNegated).toBe(true);
 		});
+
+		it("should extract conditions with zero and false values", () => {
+			const parser = new QueryParser({ schema: { price: { type: "number" }, archived: { type: "boolean" } } });
+			const result = parser.parse("price:0 archived:false");
+
+			expect(result.astConditions).toMatchObject([
+				{ key: "price", value: 0, isNumeric: true },
+				{ key: "archived", value: false, isBoolean: true }
+			]);
+		});
 	});
 
 	describe("Complex Queries", () => {
@@ -624,46 +2006,126 @@ describe("QueryParser", () => {
 			expect(result.tokens.filter((t) => t.type === "operator")).toHaveLength(1);
 		});
 
+		it("should report empty groups", () => {
+			const result = parser.parse("a () b");
+
+			expect(result.tokens).toHaveLength(2);
+			expect(result.metadata.errors).toEqual([{ start: 2, end: 4, type: "empty_group", message: expect.any(String), position: 2 }]);
+		});
+
+		it("should report unclosed parentheses", () => {
+			const result = parser.parse("(a OR b");
+
+			expect(result.metadata.errors).toEqual([{ start: 0, end: 1, type: "unbalanced_paren", message: expect.any(String), position: 0 }]);
+			expect(result.ast).toMatchObject({ type: "binary", operator: "OR" });
+		});
+
+		it("should report and ignore unmatched closing parentheses", () => {
+			const result = parser.parse("a) OR b");
+
+			expect(result.metadata.errors).toEqual([{ start: 1, end: 2, type: "unbalanced_paren", message: expect.any(String), position: 1 }]);
+			expect(result.ast).toMatchObject({ type: "binary", operator: "OR", left: { value: "a" }, right: { value: "b" } });
+		});
+
+		it("should report dangling operators", () => {
+			const testCases = [
+				{ query: "a AND", position: 2 },
+				{ query: "OR a", position: 0 },
+				{ query: "a AND OR b", position: 2 },
+				{ query: "(a OR) b", position: 3 },
+				{ query: "(| a) b", position: 1 }
+			];
+
+			testCases.forEach(({ query, position }) => {
+				const result = parser.parse(query);
+				expect(result.metadata.errors).toEqual([
+					{ start: position, end: expect.any(Number), type: "dangling_operator", message: expect.any(String), position, value: expect.any(String) }
+				]);
+				expect(result.tokens.filter((t) => t.type === "operator").length).toBeLessThanOrEqual(1);
+			});
+		});
+
+		it("should report dangling negations", () => {
+			const result = parser.parse("(a -) OR b -");
+
+			expect(result.metadata.errors).toEqual([
+				{ start: 3, end: 4, type: "dangling_negation", message: expect.any(String), position: 3 },
+				{ start: 11, end: 12, type: "dangling_negation", message: expect.any(String), position: 11 }
+			]);
+			expect(result.tokens.some((t) => t.type === "negation")).toBe(false);
+		});
+
+		it("should report operators left dangling by removed groups", () => {
+			const result = parser.parse("a OR ()");
+
+			expect(result.metadata.errors.map((e) => e.type)).toEqual(["empty_group", "dangling_operator"]);
+			expect(result.tokens).toEqual([{ start: 0, end: 1, type: "word", value: "a", position: 0 }]);
+		});
+
 		it("should return errors for invalid syntax with detailed structure", () => {
 			const result = parser.parse("hello~world");
 			expect(result.metadata.hasErrors).toBe(true);
-			expect(result.metadata.errors).toEqual([
-				{
-					type: "syntax",
-					message: expect.any(String),
-					position: 5,
-					value: "~world"
-				}
-			]);
+			expect(result.metadata.errors).toEqual([{ start: 5, end: 11, type: "syntax", message: expect.any(String), position: 5, value: "~world" }]);
 		});
 
 		it("should return errors for invalid keys with detailed structure", () => {
-			const parser = new TestQueryParser({ validKeys: ["title"] });
+			const parser = new QueryParser({ validKeys: ["title"] });
 			const result = parser.parse("author:Tolkien");
 			expect(result.metadata.hasErrors).toBe(true);
 			expect(result.metadata.errors).toEqual([
-				{
-					type: "invalid_key",
-					message: expect.any(String),
-					position: 0,
-					key: "author",
-					value: "Tolkien"
-				}
+				{ start: 0, end: 14, type: "invalid_key", message: expect.any(String), position: 0, key: "author", value: "Tolkien" }
 			]);
 		});
+
+		it("should not report groups and operators left empty by terms with errors", () => {
+			const parser = new QueryParser({ validKeys: ["title"] });
+
+			for (const query of ["(x:bad)", "a OR x:bad", "x:bad AND a", "-x:bad", "a (x:bad | x:worse) b"]) {
+				expect(parser.parse(query).metadata.errors.map((e) => e.type)).toEqual(
+					query.includes("worse") ? ["invalid_key", "invalid_key"] : ["invalid_key"]
+				);
+			}
+			expect(parser.parse("a OR x:bad OR").metadata.errors.map((e) => e.type)).toEqual(["invalid_key", "dangling_operator"]);
+			expect(parser.parse("(x:bad) OR ()").metadata.errors.map((e) => e.type)).toEqual(["invalid_key", "empty_group"]);
+		});
 	});
 
 	describe("Normalization", () => {
 		it("should normalize multiple spaces", () => {
 			const result = parser.parse("hello    world");
 
-			expect(result.metadata.originalQuery).toBe("hello world");
+			expect(result.metadata.originalQuery).toBe("hello    world");
+			expect(result.metadata.normalizedQuery).toBe("hello world");
 		});
 
 		it("should trim leading and trailing spaces", () => {
 			const result = parser.parse("  hello world  ");
 
-			expect(result.metadata.originalQuery).toBe("hello world");
+			expect(result.metadata.originalQuery).toBe("  hello world  ");
+			expect(result.metadata.normalizedQuery).toBe("hello world");
+		});
+
+		it("should keep positions and spans relative to the query as it was written", () => {
+			const query = '  author:tolkien   OR\t\t"the  hobbit" ';
+			const result = parser.parse(query);
+
+			expect(result.tokens).toEqual([
+				{ type: "keyword", key: "author", value: "tolkien", position: 2, start: 2, end: 16 },
+				{ type: "operator", value: "OR", position: 19, start: 19, end: 21 },
+				{ type: "phrase", value: "the hobbit", position: 23, start: 23, end: 36 }
+			]);
+			expect(result.tokens.map((token) => query.slice(token.start, token.end))).toEqual(["author:tolkien", "OR", '"the  hobbit"']);
+			expect(result.ast).toMatchObject({ start: 2, end: 36 });
+		});
+
+		it("should keep the positions of errors relative to the query as it was written", () => {
+			const parser = new QueryParser({ validKeys: ["title"] });
+			const result = parser.parse("   title:a    AND   bad:x   (b");
+
+			expect(result.metadata.errors).toMatchObject([
+				{ type: "invalid_key", position: 20, start: 20, end: 25 },
+				{ type: "unbalanced_paren", position: 28, start: 28, end: 29 }
+			]);
 		});
 	});
 
@@ -686,12 +2148,593 @@ describe("QueryParser", () => {
 			const validResult = parser.parse("author:Tolkien");
 			expect(validResult.metadata.hasErrors).toBe(false);
 
-			const parser2 = new TestQueryParser({ validKeys: ["title"] });
+			const parser2 = new QueryParser({ validKeys: ["title"] });
 			const invalidResult = parser2.parse("invalid:key");
 			expect(invalidResult.metadata.hasErrors).toBe(true);
 		});
 	});
 
+	describe("Stringify", () => {
+		it("should stringify simple conditions", () => {
+			const result = parser.parse('author:Tolkien -title:"The Hobbit" /hob+it/ price>=10 fantasy');
+
+			expect(parser.stringify(result.ast!)).toBe('author:Tolkien -title:"The Hobbit" /hob+it/ price>=10 fantasy');
+		});
+
+		it("should keep explicit operators and group right-hand expressions", () => {
+			const result = parser.parse("a OR b & (c | -d)");
+
+			expect(parser.stringify(result.ast!)).toBe("a OR b & (c | -d)");
+		});
+
+		it("should stringify negated groups", () => {
+			const result = parser.parse("author:Tolkien -(title:hobbit OR price<=10)");
+
+			expect(parser.stringify(result.ast!)).toBe("author:Tolkien -(title:hobbit OR price<=10)");
+		});
+
+		it("should quote words that are not plain words", () => {
+			const ast: ASTNode = {
+				type: "binary",
+				operator: "AND",
+				left: { type: "condition", token: "word", value: "or", position: 0 },
+				right: { type: "condition", token: "keyword", key: "email", value: "user@example.com", position: 0 }
+			};
+
+			expect(parser.stringify(ast)).toBe('"or" email:"user@example.com"');
+		});
+
+		it("should only group expressions where precedence requires it", () => {
+			expect(parser.stringify(parser.parse("a OR b c").ast!)).toBe("a OR b c");
+			expect(parser.stringify(parser.parse("(a OR b) c").ast!)).toBe("(a OR b) c");
+			expect(parser.stringify(parser.parse("a (b OR c)").ast!)).toBe("a (b OR c)");
+		});
+
+		it("should group expressions when operatorPrecedence is false", () => {
+			const parser = new QueryParser({ operatorPrecedence: false });
+
+			expect(parser.stringify(parser.parse("a OR b c").ast!)).toBe("a OR b c");
+			expect(parser.stringify(parser.parse("a OR (b c)").ast!)).toBe("a OR (b c)");
+		});
+
+		it("should stringify boolean conditions", () => {
+			const parser = new QueryParser({ schema: { archived: { type: "boolean" }, starred: { type: "boolean" } } });
+			const result = parser.parse("archived:no -starred:yes");
+
+			expect(parser.stringify(result.ast!)).toBe("archived:false -is:starred");
+		});
+
+		it("should round-trip queries to the same AST", () => {
+			const queries = [
+				"hello world",
+				'author:Tolkien -title:"The Hobbit"',
+				"(author:Tolkien OR author:Lewis) AND title:book",
+				"a OR (b c) OR -(d | e)",
+				"(a OR b) c | d & (e | f)",
+				"((foo or bar) and baz)",
+				"name:/test.*/ /^abc$/ /hobbit/i name:/bilbo/gs",
+				'title:"The \\"Best\\" Book" path:/src\\/lib/ "back\\\\slash" /a\\\\/',
+				"price:100 price>99.99 price<-10 price<=2024 count:12345",
+				"created:2024-01-15 -created:2024-01 created:2020..2024",
+				"created<2025-05-05 OR created=2025-05-10T10:30:00Z OR created>2025-05-15",
+				"price:100..200 -created:2024-01-01..2024-12-31",
+				"-price:10..20 OR price:30..<40 -created:2024-01 (created:..2024-03 OR price:1000..)",
+				"tolk* -author:*kien title:*ring*",
+				"tolkein~ author:tolkein~1 (lewsi~3 OR title:hobbit)",
+				'status:(open|closed|"in progress") -price:10,20.5 code:a,10',
+				"has:assignee -due:* (tags:* OR -has:labels)",
+				"is:starred -is:archived",
+				'price!=0 status<>done NOT archived created!=2024-01 "not"',
+				"author.name:tolkien -tags[0]:fantasy meta.rating:1..5 has:meta.created",
+				"name:José -tag:sci-fi c++ city:(zürich|são-paulo) Zoë* naïve~1"
+			];
+
+			for (const query of queries) {
+				const { ast } = parser.parse(query);
+				const reparsed = parser.parse(parser.stringify(ast!));
+
+				expect(reparsed.metadata.hasErrors).toBe(false);
+				expect(withoutPositions(reparsed.ast)).toEqual(withoutPositions(ast));
+			}
+		});
+
+		it("should only quote keyed values and set elements where needed", () => {
+			const parser = new QueryParser({ negationWords: ["nicht"] });
+			const queries = ['x:AND y:or z:nicht "nicht"', 'x:("10"|"20") y:(a|"3"|-1.5) z:(10|20)'];
+
+			expect(parser.stringify(parser.parse(queries[0]!).ast!)).toBe('x:AND y:or z:nicht "nicht"');
+			expect(parser.stringify(parser.parse(queries[1]!).ast!)).toBe('x:("10"|"20") y:(a|"3"|"-1.5") z:(10|20)');
+
+			for (const query of queries) {
+				const { ast } = parser.parse(query);
+				const reparsed = parser.parse(parser.stringify(ast!));
+
+				expect(reparsed.metadata.hasErrors).toBe(false);
+				expect(withoutPositions(reparsed.ast)).toEqual(withoutPositions(ast));
+			}
+		});
+	});
+
+	describe("JSON Encoding", () => {
+		it("should encode dates and revive them as dates", () => {
+			const { ast } = parser.parse("created>=2024-01-15 -created:2024-03 price<10");
+			const json = toJSON(ast);
+
+			expect(JSON.parse(json)).toMatchObject({
+				version: 1,
+				ast: { left: { left: { value: { $date: "2024-01-15T00:00:00.000Z" } } } }
+			});
+			expect(fromJSON(json)).toEqual({ ast });
+			expect(fromJSON(json).ast).toMatchObject({ left: { left: { value: expect.any(Date) } } });
+		});
+
+		it("should encode parse results", () => {
+			const result = parser.parse("author:tolkien created<2024 bad:");
+			const decoded = fromJSON(toJSON(result));
+
+			expect(decoded).toEqual({ tokens: result.tokens, ast: result.ast, astConditions: result.astConditions, metadata: result.metadata });
+			expect(decoded.astConditions?.[1]?.value).toBeInstanceOf(Date);
+		});
+
+		it("should encode an empty AST", () => {
+			expect(toJSON(null)).toBe('{"version":1,"ast":null}');
+			expect(fromJSON('{"version":1,"ast":null}')).toEqual({ ast: null });
+		});
+
+		it("should reject malformed JSON and other versions", () => {
+			expect(() => fromJSON("{")).toThrow(ASTValidationError);
+			expect(() => fromJSON("[]")).toThrow("Expected an object at $");
+			expect(() => fromJSON('{"version":2,"ast":null}')).toThrow("Unsupported version 2 at version");
+			expect(() => fromJSON('{"version":1,"ast":null,"where":{}}')).toThrow("Unknown property where at where");
+			expect(() => fromJSON('{"version":1,"ast":null,"tokens":{}}')).toThrow("Expected an array of tokens at tokens");
+		});
+
+		it("should reject malformed nodes", () => {
+			const condition = { type: "condition", token: "keyword", key: "author", value: "tolkien", position: 0 };
+			const invalid: [unknown, string][] = [
+				[{ ...condition, token: "keyword_sql" }, "Unknown token keyword_sql at ast.token"],
+				[{ ...condition, type: "function" }, "Unknown node type function at ast.type"],
+				[{ ...condition, __proto__: null, polluted: true }, "Unknown property polluted at ast.polluted"],
+				[{ ...condition, token: "keyword_numeric", value: "10" }, "Expected a number at ast.value"],
+				[{ ...condition, token: "keyword_date", value: "2024-01-01" }, "Expected a date at ast.value"],
+				[{ ...condition, token: "keyword_regex", value: "(" }, "Invalid regular expression at ast.value"],
+				[{ ...condition, operator: "LIKE" }, "Unknown operator LIKE at ast.operator"],
+				[{ type: "binary", operator: "XOR", left: condition, right: condition }, "Unknown operator XOR at ast.operator"],
+				[{ type: "binary", operator: "AND", left: condition }, "Expected a node at ast.right"],
+				[{ ...condition, key: undefined }, "Expected a key at ast.key"]
+			];
+
+			for (const [ast, message] of invalid) {
+				expect(() => validateAST(ast)).toThrow(message);
+			}
+			expect(() => fromJSON(JSON.stringify({ version: 1, ast: { ...condition, constructor: {} } }))).toThrow(
+				"Unknown property constructor at ast.constructor"
+			);
+		});
+
+		it("should reject keys that are not valid", () => {
+			const { ast } = parser.parse("author:tolkien OR title:hobbit");
+
+			expect(() => fromJSON(toJSON(ast), { validKeys: ["author", "title"] })).not.toThrow();
+			expect(() => fromJSON(toJSON(ast), { validKeys: ["author"] })).toThrow("Invalid key title at ast.right.key");
+		});
+
+		it("should reject trees that are too deep or too large", () => {
+			const { ast } = parser.parse(Array.from({ length: 20 }, (_, i) => `a${i}`).join(" OR "));
+			const nested = Array.from({ length: 200 }).reduce<unknown>(
+				(node) => ({ type: "binary", operator: "AND", left: node, right: { type: "condition", token: "word", value: "x", position: 0 } }),
+				{ type: "condition", token: "word", value: "x", position: 0 }
+			);
+
+			expect(() => validateAST(ast, { maxNodes: 38 })).toThrow("Tree has more than 38 nodes");
+			expect(() => validateAST(ast, { maxNodes: 39 })).not.toThrow();
+			expect(() => validateAST(ast, { maxDepth: 10 })).toThrow("Tree is deeper than 10");
+			expect(() => validateAST(ast)).not.toThrow();
+			expect(() => validateAST(nested)).toThrow("Tree is deeper than 100");
+		});
+	});
+
+	describe("AST Utilities", () => {
+		it("should walk nodes with their effective negation and path", () => {
+			const { ast } = parser.parse("a -(b OR -c)");
+			const visited: [string, boolean, string][] = [];
+			walkAST(ast, (node, { negated, path }) => {
+				visited.push([node.type === "condition" ? String(node.value) : node.operator, negated, path.join(".")]);
+			});
+
+			expect(visited).toEqual([
+				["AND", false, ""],
+				["a", false, "left"],
+				["OR", true, "right"],
+				["b", true, "right.left"],
+				["c", true, "right.right"]
+			]);
+		});
+
+		it("should pass the parents of a node and skip children", () => {
+			const { ast } = parser.parse("a (b OR c)");
+			const parents: number[] = [];
+			walkAST(ast, (node, context) => {
+				parents.push(context.parents.length);
+				if (node.type === "binary" && node.operator === "OR") {
+					expect(context.parents).toEqual([ast]);
+					return false;
+				}
+			});
+
+			expect(parents).toEqual([0, 1, 1]);
+			const visit = jest.fn();
+			walkAST(null, visit);
+			expect(visit).not.toHaveBeenCalled();
+		});
+
+		it("should negate conditions inside negated groups", () => {
+			const result = parser.parse("-(author:tolkien -title:hobbit)");
+
+			expect(result.astConditions.map((cond) => cond.isNegated)).toEqual([true, true]);
+		});
+
+		it("should fold an AST from the conditions up", () => {
+			const { ast } = parser.parse("a (b OR -c)");
+			const folded = foldAST(ast!, {
+				condition: (node, { negated }) => `${negated ? "-" : ""}${node.value}`,
+				binary: (node, left, right) => `(${left} ${node.operator} ${right})`
+			});
+
+			expect(folded).toBe("(a AND (b OR -c))");
+		});
+
+		it("should map conditions without modifying the AST", () => {
+			const { ast } = parser.parse("author:TOLKIEN (title:Hobbit OR books>10)");
+			const before = JSON.stringify(ast);
+			const mapped = mapAST(ast, (node) => (node.key === "author" ? { ...node, value: String(node.value).toLowerCase() } : node));
+
+			expect(parser.stringify(mapped!)).toBe("author:tolkien (title:Hobbit OR books>10)");
+			expect(JSON.stringify(ast)).toBe(before);
+			// Unchanged branches are shared with the input
+			expect((mapped as BinaryNode).right).toBe((ast as BinaryNode).right);
+			expect(mapAST(ast, (node) => node)).toBe(ast);
+			expect(mapAST(null, (node) => node)).toBeNull();
+		});
+
+		it("should map conditions to subtrees", () => {
+			const { ast } = parser.parse("name:frodo");
+			const expanded = mapAST(ast, (node) => ({
+				type: "binary",
+				operator: "OR",
+				left: { ...node, key: "first" },
+				right: { ...node, key: "last" }
+			}));
+
+			expect(parser.stringify(expanded!)).toBe("first:frodo OR last:frodo");
+		});
+
+		it("should filter conditions and collapse their parents", () => {
+			const { ast } = parser.parse("title:hobbit -internal:true (author:tolkien OR internal:false)");
+
+			expect(parser.stringify(filterAST(ast, (node) => node.key !== "internal")!)).toBe("title:hobbit author:tolkien");
+			expect(filterAST(ast, () => false)).toBeNull();
+			expect(filterAST(ast, () => true)).toBe(ast);
+			expect(filterAST(null, () => true)).toBeNull();
+		});
+
+		it("should keep the negation of a collapsed parent", () => {
+			const { ast } = parser.parse("-(a b) -(c -d)");
+			const pruned = filterAST(ast, (node) => node.value !== "b" && node.value !== "c");
+
+			expect(parser.stringify(pruned!)).toBe("-a d");
+			expect(pruned).toMatchObject({ right: { value: "d" } });
+			expect(pruned?.type === "binary" && pruned.right).not.toHaveProperty("negated");
+		});
+
+		it("should pass the effective negation to filters", () => {
+			const { ast } = parser.parse("a -b -(c -d)");
+
+			expect(parser.stringify(filterAST(ast, (_, { negated }) => !negated)!)).toBe("a");
+		});
+
+		it("should pass the same negation for a negated condition inside a negated group to every helper", () => {
+			const { ast, astConditions } = parser.parse("-(a -b)");
+			const expected = [
+				["a", true],
+				["b", true]
+			];
+
+			const walked: [string, boolean][] = [];
+			walkAST(ast, (node, { negated }) => {
+				if (node.type === "condition") walked.push([String(node.value), negated]);
+			});
+			const folded = foldAST<[string, boolean][]>(ast!, {
+				condition: (node, { negated }) => [[String(node.value), negated]],
+				binary: (_, left, right) => [...left, ...right]
+			});
+			const mapped: [string, boolean][] = [];
+			mapAST(ast, (node, { negated }) => {
+				mapped.push([String(node.value), negated]);
+				return node;
+			});
+			const filtered: [string, boolean][] = [];
+			const pruned = filterAST(ast, (node, { negated }) => {
+				filtered.push([String(node.value), negated]);
+				return node.value !== "a";
+			});
+
+			expect(walked).toEqual(expected);
+			expect(folded).toEqual(expected);
+			expect(mapped).toEqual(expected);
+			expect(filtered).toEqual(expected);
+			expect(astConditions.map((cond) => [cond.value, cond.isNegated])).toEqual(expected);
+			// The two negations of `b` cancel out once `a` is removed
+			expect(parser.stringify(pruned!)).toBe("b");
+		});
+	});
+
+	describe("Suggestions", () => {
+		const options = {
+			validKeys: ["author", "title", "status", "archived"],
+			schema: { status: { type: "enum", values: ["open", "closed", "in progress"] }, archived: { type: "boolean" } },
+			valueProviders: { author: () => ["Tolkien", "Lewis", "Le Guin"], title: () => ["The Hobbit", "The Two Towers"] }
+		} as const;
+
+		it("should suggest keys and operators for an empty query", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("")).toEqual({
+				context: "empty",
+				prefix: "",
+				range: { start: 0, end: 0 },
+				suggestions: [
+					{ type: "key", value: "author:" },
+					{ type: "key", value: "title:" },
+					{ type: "key", value: "status:" },
+					{ type: "key", value: "archived:" },
+					{ type: "operator", value: "NOT" }
+				]
+			});
+		});
+
+		it("should suggest keys and operators for a word", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("tolkien a")).toEqual({
+				context: "key",
+				prefix: "a",
+				range: { start: 8, end: 9 },
+				suggestions: [
+					{ type: "key", value: "author:" },
+					{ type: "key", value: "archived:" },
+					{ type: "operator", value: "AND" }
+				]
+			});
+			expect(parser.suggest("-ti")).toMatchObject({ context: "key", range: { start: 1, end: 3 }, suggestions: [{ type: "key", value: "title:" }] });
+		});
+
+		it("should recognize operators", () => {
+			const parser = new QueryParser({ ...options, negationWords: ["nicht"] });
+
+			expect(parser.suggest("a OR")).toMatchObject({ context: "operator", prefix: "OR", suggestions: [{ type: "operator", value: "OR" }] });
+			expect(parser.suggest("(n")).toMatchObject({
+				context: "key",
+				range: { start: 1, end: 2 },
+				suggestions: [
+					{ type: "operator", value: "NOT" },
+					{ type: "operator", value: "nicht" }
+				]
+			});
+		});
+
+		it("should not suggest AND or OR after an operator or a negation word", () => {
+			const parser = new QueryParser({ ...options, negationWords: ["nicht"] });
+
+			for (const query of ["x OR ", "x and ", "x & ", "NOT ", "x nicht "]) {
+				expect(parser.suggest(query).suggestions.map(({ value }) => value)).toEqual(["author:", "title:", "status:", "archived:", "NOT", "nicht"]);
+			}
+			expect(parser.suggest("x ").suggestions).toContainEqual({ type: "operator", value: "OR" });
+		});
+
+		it("should suggest values from the value providers and the schema", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("author:le")).toEqual({
+				context: "value",
+				key: "author",
+				prefix: "le",
+				range: { start: 7, end: 9 },
+				suggestions: [
+					{ type: "value", value: "Lewis" },
+					{ type: "value", value: '"Le Guin"' }
+				]
+			});
+			expect(parser.suggest("status:").suggestions).toEqual([
+				{ type: "value", value: "open" },
+				{ type: "value", value: "closed" },
+				{ type: "value", value: '"in progress"' }
+			]);
+			expect(parser.suggest("-archived!=t").suggestions).toEqual([{ type: "value", value: "true" }]);
+		});
+
+		it("should replace the whole term at the cursor", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("author:lew title:hobbit", 9)).toMatchObject({ context: "value", prefix: "le", range: { start: 7, end: 10 } });
+			expect(parser.suggest("(tolkien OR au) title:x", 14)).toMatchObject({ context: "key", prefix: "au", range: { start: 12, end: 14 } });
+		});
+
+		it("should only replace the key when the cursor is in the key of a keyword", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("author:tol", 3)).toEqual({
+				context: "key",
+				prefix: "aut",
+				range: { start: 0, end: 6 },
+				suggestions: [{ type: "key", value: "author" }]
+			});
+			expect(parser.suggest("x -ti!=hobbit", 5)).toMatchObject({ context: "key", range: { start: 3, end: 5 }, suggestions: [{ value: "title" }] });
+			expect(parser.suggest("status:open", 6)).toMatchObject({ range: { start: 0, end: 6 }, suggestions: [{ value: "status" }] });
+		});
+
+		it("should suggest values inside phrases", () => {
+			const parser = new QueryParser({ ...options, defaultKey: "title" });
+
+			expect(parser.suggest('title:"the h')).toEqual({
+				context: "phrase",
+				key: "title",
+				prefix: "the h",
+				range: { start: 6, end: 12 },
+				suggestions: [{ type: "value", value: '"The Hobbit"' }]
+			});
+			expect(parser.suggest('"the t" author:x', 6)).toMatchObject({
+				context: "phrase",
+				key: "title",
+				range: { start: 0, end: 7 },
+				suggestions: [{ type: "value", value: '"The Two Towers"' }]
+			});
+		});
+
+		it("should suggest the values of set elements", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("status:(open|cl")).toMatchObject({
+				context: "value",
+				range: { start: 13, end: 15 },
+				suggestions: [{ value: "closed" }]
+			});
+			expect(parser.suggest('status:open,"in')).toMatchObject({
+				context: "phrase",
+				range: { start: 12, end: 15 },
+				suggestions: [{ value: '"in progress"' }]
+			});
+		});
+
+		it("should suggest keys after has: and is:", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("has:a")).toEqual({
+				context: "key",
+				prefix: "a",
+				range: { start: 4, end: 5 },
+				suggestions: [
+					{ type: "key", value: "author" },
+					{ type: "key", value: "archived" }
+				]
+			});
+			expect(parser.suggest("-is:").suggestions).toEqual([{ type: "key", value: "archived" }]);
+		});
+
+		it("should suggest sort targets after asc: and desc:", () => {
+			const parser = new QueryParser({ validKeys: ["asc", "desc", "author", "title"] });
+
+			expect(parser.suggest("desc:")).toMatchObject({
+				context: "value",
+				key: "desc",
+				suggestions: [
+					{ type: "sort", value: "author" },
+					{ type: "sort", value: "title" }
+				]
+			});
+		});
+
+		it("should not suggest values for regular expressions or invalid keys", () => {
+			const parser = new QueryParser(options);
+
+			expect(parser.suggest("author:/to")).toMatchObject({ context: "regex", key: "author", range: { start: 7, end: 10 }, suggestions: [] });
+			expect(parser.suggest("other:to")).toEqual({ context: "value", prefix: "to", range: { start: 6, end: 8 }, suggestions: [] });
+		});
+	});
+
+	describe("Spans and Highlighting", () => {
+		it("should split the span of a range between its bounds", () => {
+			const result = parser.parse("price:10..20");
+
+			expect(result.tokens.map(({ type, start, end }) => ({ type, start, end }))).toEqual([
+				{ type: "open_paren", start: 0, end: 0 },
+				{ type: "keyword_numeric", start: 0, end: 8 },
+				{ type: "keyword_numeric", start: 8, end: 12 },
+				{ type: "close_paren", start: 12, end: 12 }
+			]);
+		});
+
+		it("should include negations and parentheses in the spans of nodes", () => {
+			const result = parser.parse("-(a OR b) c");
+
+			expect(result.ast).toMatchObject({
+				start: 0,
+				end: 11,
+				left: { start: 0, end: 9, negated: true, left: { start: 2, end: 3 }, right: { start: 7, end: 8 } },
+				right: { start: 10, end: 11 }
+			});
+			expect(result.astConditions.map(({ start, end }) => [start, end])).toEqual([
+				[2, 3],
+				[7, 8],
+				[10, 11]
+			]);
+		});
+
+		it("should cover the whole query with segments", () => {
+			const query = 'author:tolkien  -title:"The Hobbit"';
+
+			expect(parser.highlight(query)).toEqual([
+				{ type: "key", start: 0, end: 6, text: "author" },
+				{ type: "operator", start: 6, end: 7, text: ":" },
+				{ type: "value", start: 7, end: 14, text: "tolkien" },
+				{ type: "whitespace", start: 14, end: 16, text: "  " },
+				{ type: "operator", start: 16, end: 17, text: "-" },
+				{ type: "key", start: 17, end: 22, text: "title" },
+				{ type: "operator", start: 22, end: 23, text: ":" },
+				{ type: "phrase", start: 23, end: 35, text: '"The Hobbit"' }
+			]);
+		});
+
+		it("should highlight range operators, regexes, and surrounding whitespace", () => {
+			expect(parser.highlight("price:10..<20 /ring/i")).toEqual([
+				{ type: "key", start: 0, end: 5, text: "price" },
+				{ type: "operator", start: 5, end: 6, text: ":" },
+				{ type: "value", start: 6, end: 8, text: "10" },
+				{ type: "operator", start: 8, end: 11, text: "..<" },
+				{ type: "value", start: 11, end: 13, text: "20" },
+				{ type: "whitespace", start: 13, end: 14, text: " " },
+				{ type: "regex", start: 14, end: 21, text: "/ring/i" }
+			]);
+			expect(parser.highlight("  (a OR b)  ").map(({ type, text }) => [type, text])).toEqual([
+				["whitespace", "  "],
+				["operator", "("],
+				["value", "a"],
+				["whitespace", " "],
+				["operator", "OR"],
+				["whitespace", " "],
+				["value", "b"],
+				["operator", ")"],
+				["whitespace", "  "]
+			]);
+		});
+
+		it("should highlight has: and is: as operators before the key", () => {
+			expect(parser.highlight("has:author.name -is:starred due:*").map(({ type, text }) => [type, text])).toEqual([
+				["operator", "has:"],
+				["key", "author.name"],
+				["whitespace", " "],
+				["operator", "-is:"],
+				["key", "starred"],
+				["whitespace", " "],
+				["key", "due"],
+				["operator", ":"],
+				["value", "*"]
+			]);
+		});
+
+		it("should highlight errors", () => {
+			const parser = new QueryParser({ validKeys: ["title"] });
+
+			expect(parser.parse("bad:x").metadata.errors).toMatchObject([{ type: "invalid_key", start: 0, end: 5 }]);
+			expect(parser.highlight("bad:x title:")).toEqual([
+				{ type: "error", start: 0, end: 5, text: "bad:x" },
+				{ type: "whitespace", start: 5, end: 6, text: " " },
+				{ type: "value", start: 6, end: 11, text: "title" },
+				{ type: "error", start: 11, end: 12, text: ":" }
+			]);
+		});
+	});
+
 	describe("Edge Cases", () => {
 		it("should handle empty query", () => {
 			const result = parser.parse("");
@@ -705,7 +2748,7 @@ describe("QueryParser", () => {
 			const result = parser.parse("   ");
 
 			expect(result.tokens).toHaveLength(0);
-			expect(result.metadata.originalQuery).toBe("");
+			expect(result.metadata.normalizedQuery).toBe("");
 		});
 
 		it("should handle unclosed quotes", () => {